@@ -0,0 +1,250 @@
+// ===============================================
+// MOCK LESSON SYNC SERVER
+// Implements the API in ./README.md for development and tests. No
+// dependencies: run it with `npm run mock-server` (or `node
+// mock-server/server.js --port 8787 --data lessons.json`).
+// ===============================================
+
+import { createServer } from "node:http";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+
+const { values: options } = parseArgs({
+  options: {
+    port: { type: "string", default: "8787" },
+    /** Keep data in this JSON file across restarts. */
+    data: { type: "string" },
+    /** Delay every answer, to try out the app on a slow connection. */
+    latency: { type: "string", default: "0" },
+  },
+});
+
+// ===============================================
+// STORAGE
+// ===============================================
+
+/** lessons: id -> lesson; assets: id -> { type, data (base64) } */
+const emptyState = () => ({ lessons: {}, assets: {} });
+
+let state =
+  options.data && existsSync(options.data)
+    ? JSON.parse(readFileSync(options.data, "utf8"))
+    : emptyState();
+
+const persist = () => {
+  if (options.data) writeFileSync(options.data, JSON.stringify(state));
+};
+
+// ===============================================
+// HTTP HELPERS
+// ===============================================
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, HEAD, PUT, DELETE, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+const send = (response, status, body) => {
+  if (body === undefined) {
+    response.writeHead(status, CORS_HEADERS).end();
+    return;
+  }
+  response
+    .writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json" })
+    .end(JSON.stringify(body));
+};
+
+const readBody = async (request) => {
+  const chunks = [];
+  for await (const chunk of request) chunks.push(chunk);
+  return Buffer.concat(chunks);
+};
+
+const readJson = async (request) => {
+  const body = await readBody(request);
+  return body.length > 0 ? JSON.parse(body.toString("utf8")) : {};
+};
+
+/** The write is based on an out-of-date copy: answer 409 with the current
+ * lesson (null if it no longer exists). */
+const isStale = (current, baseUpdatedAt) =>
+  current ? current.updatedAt !== baseUpdatedAt : baseUpdatedAt != null;
+
+const conflict = (response, current) =>
+  send(response, 409, { error: "conflict", lesson: current ?? null });
+
+// ===============================================
+// ROUTES
+// ===============================================
+
+const handleLessons = async (request, response, [id, sub, activityId]) => {
+  if (id === undefined) {
+    if (request.method !== "GET")
+      return send(response, 405, { error: "method not allowed" });
+    return send(response, 200, { lessons: Object.values(state.lessons) });
+  }
+
+  const current = state.lessons[id];
+
+  // /lessons/:id/activities[/:activityId]
+  if (sub === "activities") {
+    if (!current) return send(response, 404, { error: "lesson not found" });
+    if (activityId === undefined) {
+      if (request.method !== "GET")
+        return send(response, 405, { error: "method not allowed" });
+      return send(response, 200, { activities: current.activities });
+    }
+    const activities = current.activities.filter(
+      (activity) => String(activity.id) !== activityId
+    );
+    if (request.method === "GET") {
+      const activity = current.activities.find(
+        (entry) => String(entry.id) === activityId
+      );
+      return activity
+        ? send(response, 200, { activity })
+        : send(response, 404, { error: "activity not found" });
+    }
+    if (request.method !== "PUT" && request.method !== "DELETE") {
+      return send(response, 405, { error: "method not allowed" });
+    }
+    const { activity, baseUpdatedAt } = await readJson(request);
+    if (isStale(current, baseUpdatedAt)) return conflict(response, current);
+    if (request.method === "PUT") {
+      if (!activity || String(activity.id) !== activityId) {
+        return send(response, 400, { error: "activity id must match the URL" });
+      }
+      const index = current.activities.findIndex(
+        (entry) => String(entry.id) === activityId
+      );
+      if (index >= 0) activities.splice(index, 0, activity);
+      else activities.push(activity);
+    } else if (activities.length === current.activities.length) {
+      return send(response, 404, { error: "activity not found" });
+    }
+    const lesson = {
+      ...current,
+      activities,
+      updatedAt: new Date().toISOString(),
+    };
+    state.lessons[id] = lesson;
+    persist();
+    return send(response, 200, { lesson });
+  }
+
+  if (sub !== undefined) return send(response, 404, { error: "not found" });
+
+  switch (request.method) {
+    case "GET":
+      return current
+        ? send(response, 200, { lesson: current })
+        : send(response, 404, { error: "lesson not found" });
+
+    case "PUT": {
+      const { lesson, baseUpdatedAt } = await readJson(request);
+      if (
+        !lesson ||
+        String(lesson.id) !== id ||
+        typeof lesson.updatedAt !== "string"
+      ) {
+        return send(response, 400, {
+          error:
+            "body must be { lesson, baseUpdatedAt } with the URL's id and an updatedAt",
+        });
+      }
+      if (isStale(current, baseUpdatedAt ?? null))
+        return conflict(response, current);
+      state.lessons[id] = lesson;
+      persist();
+      return send(response, 200, { lesson });
+    }
+
+    case "DELETE": {
+      const { baseUpdatedAt } = await readJson(request);
+      if (current && current.updatedAt !== baseUpdatedAt) {
+        return conflict(response, current);
+      }
+      delete state.lessons[id];
+      persist();
+      return send(response, 204);
+    }
+
+    default:
+      return send(response, 405, { error: "method not allowed" });
+  }
+};
+
+const handleAssets = async (request, response, [id]) => {
+  if (id === undefined) return send(response, 404, { error: "not found" });
+  const asset = state.assets[id];
+
+  switch (request.method) {
+    case "HEAD":
+    case "GET": {
+      if (!asset)
+        return send(
+          response,
+          404,
+          request.method === "GET" ? { error: "asset not found" } : undefined
+        );
+      const bytes = Buffer.from(asset.data, "base64");
+      response.writeHead(200, {
+        ...CORS_HEADERS,
+        "Content-Type": asset.type,
+        "Content-Length": bytes.length,
+      });
+      return response.end(request.method === "GET" ? bytes : undefined);
+    }
+
+    case "PUT": {
+      const bytes = await readBody(request);
+      state.assets[id] = {
+        type: request.headers["content-type"] || "application/octet-stream",
+        data: bytes.toString("base64"),
+      };
+      persist();
+      return send(response, 204);
+    }
+
+    default:
+      return send(response, 405, { error: "method not allowed" });
+  }
+};
+
+const handle = async (request, response) => {
+  if (request.method === "OPTIONS") return send(response, 204);
+
+  const { pathname } = new URL(request.url, "http://localhost");
+  const [prefix, resource, ...rest] = pathname
+    .split("/")
+    .filter(Boolean)
+    .map(decodeURIComponent);
+  if (prefix !== "api") return send(response, 404, { error: "not found" });
+
+  if (resource === "lessons") return handleLessons(request, response, rest);
+  if (resource === "assets") return handleAssets(request, response, rest);
+  if (resource === "reset" && request.method === "POST") {
+    state = emptyState();
+    persist();
+    return send(response, 204);
+  }
+  return send(response, 404, { error: "not found" });
+};
+
+const latency = Number(options.latency);
+
+createServer((request, response) => {
+  setTimeout(() => {
+    handle(request, response).catch((error) => {
+      if (error instanceof SyntaxError) {
+        send(response, 400, { error: "invalid JSON" });
+        return;
+      }
+      console.error(error);
+      send(response, 500, { error: "server error" });
+    });
+  }, latency);
+}).listen(Number(options.port), () => {
+  console.log(`Mock lesson sync API on http://localhost:${options.port}/api`);
+});
@@ -1,9 +1,77 @@
+import { useEffect, useState } from 'react'
+import LearnerLessonList from './component/LearnerLessonList'
 import LearnerLessonView from './component/LearnerLessonView'
+import Link from './component/Link'
+import TeacherDashboard from './component/TeacherDashboard'
+import ReviewSession from './component/ReviewSession'
+import { DEMO_LESSON_ID } from './lib/demoLesson'
+import { loadLearnerLesson } from './lib/learnerLessons'
+import type { Lesson } from './lib/lessonSchema'
+import { pathFor, useRoute } from './lib/router'
+
+const NotFound = ({ message }: { message: string }) => (
+  <div className="flex flex-col items-center justify-center min-h-[60vh] p-4 text-center">
+    <div className="text-6xl mb-4">🧭</div>
+    <h1 className="text-2xl font-bold text-gray-800 mb-2">{message}</h1>
+    <Link href={pathFor({ name: 'lessons' })} className="text-indigo-600 hover:text-indigo-800 font-semibold">
+      ← Back to Lessons
+    </Link>
+  </div>
+)
+
+const LearnRoute = ({ lessonId }: { lessonId: string }) => {
+  const [loaded, setLoaded] = useState<{ lessonId: string; lessonData: Lesson | null; failed?: boolean } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    loadLearnerLesson(lessonId)
+      .then((lessonData) => {
+        if (!cancelled) setLoaded({ lessonId, lessonData })
+      })
+      .catch((error) => {
+        console.error('Loading the lesson failed:', error)
+        if (!cancelled) setLoaded({ lessonId, lessonData: null, failed: true })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [lessonId])
+
+  if (loaded?.lessonId !== lessonId) return null
+  if (loaded.failed) return <NotFound message="This lesson could not be loaded" />
+  if (!loaded.lessonData) return <NotFound message="Lesson not found" />
+  return <LearnerLessonView key={lessonId} lessonData={loaded.lessonData} lessonId={lessonId} />
+}
 
 function App() {
+  const route = useRoute()
+
   return (
     <>
-    <LearnerLessonView />
+    <nav className="w-full bg-indigo-700 text-white">
+      <div className="max-w-6xl mx-auto px-4 py-2 flex items-center space-x-6 text-sm">
+        <span className="font-bold">Darija</span>
+        <Link href={pathFor({ name: 'lessons' })} className="hover:text-indigo-200">Teacher Dashboard</Link>
+        <Link href={pathFor({ name: 'learner-lessons' })} className="hover:text-indigo-200">My Lessons</Link>
+        <Link href={pathFor({ name: 'review' })} className="hover:text-indigo-200">Review</Link>
+        <Link href={pathFor({ name: 'learn', lessonId: DEMO_LESSON_ID })} className="hover:text-indigo-200">Demo Lesson</Link>
+      </div>
+    </nav>
+    {route.name === 'learner-lessons' ? (
+      <LearnerLessonList />
+    ) : route.name === 'review' ? (
+      <ReviewSession />
+    ) : route.name === 'learn' ? (
+      <LearnRoute lessonId={route.lessonId} />
+    ) : route.name === 'not-found' ? (
+      <NotFound message="Page not found" />
+    ) : (
+      // One element for all teacher views so the editor keeps its state while moving between them
+      <TeacherDashboard
+        view={route.name === 'lessons' ? 'list' : route.name}
+        lessonId={route.name === 'lessons' ? undefined : route.lessonId}
+      />
+    )}
     </>
   )
 }
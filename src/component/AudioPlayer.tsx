@@ -0,0 +1,137 @@
+import type { MouseEvent } from "react";
+import {
+  PLAYBACK_RATES,
+  pausePlayback,
+  playClip,
+  useClipPlayback,
+} from "../lib/audioPlayback";
+
+interface AudioPlayerProps {
+  src: string | null | undefined;
+  label: string;
+  /** Also offer the slower replay speeds (for learner prompts). */
+  showSpeeds?: boolean;
+}
+
+const AudioPlayer = ({ src, label, showSpeeds = false }: AudioPlayerProps) => {
+  const { status, rate } = useClipPlayback(src);
+  if (!src) return null;
+
+  // The player often sits inside a clickable card; keep its clicks to itself.
+  const handleToggle = (e: MouseEvent) => {
+    e.stopPropagation();
+    if (status === "playing" || status === "loading") {
+      pausePlayback();
+    } else {
+      playClip(src, status === "paused" ? rate : 1);
+    }
+  };
+
+  const handleSpeed = (e: MouseEvent, speed: number) => {
+    e.stopPropagation();
+    playClip(src, speed);
+  };
+
+  const title =
+    status === "error"
+      ? `Audio unavailable: ${label}`
+      : status === "playing"
+        ? `Pause ${label}`
+        : `Play ${label}`;
+
+  return (
+    <span className="inline-flex items-center ml-2 align-middle">
+      <button
+        type="button"
+        onClick={handleToggle}
+        title={title}
+        aria-label={title}
+        className={`focus:outline-none ${
+          status === "error"
+            ? "text-red-500 hover:text-red-700"
+            : "text-indigo-600 hover:text-indigo-800"
+        }`}
+      >
+        {status === "loading" ? (
+          <svg
+            className="h-5 w-5 inline-block animate-spin"
+            viewBox="0 0 24 24"
+            fill="none"
+          >
+            <circle
+              cx="12"
+              cy="12"
+              r="10"
+              stroke="currentColor"
+              strokeWidth="4"
+              className="opacity-25"
+            />
+            <path
+              fill="currentColor"
+              d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"
+              className="opacity-75"
+            />
+          </svg>
+        ) : status === "error" ? (
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-5 w-5 inline-block"
+            viewBox="0 0 20 20"
+            fill="currentColor"
+          >
+            <path
+              fillRule="evenodd"
+              d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"
+              clipRule="evenodd"
+            />
+          </svg>
+        ) : status === "playing" ? (
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-5 w-5 inline-block"
+            viewBox="0 0 20 20"
+            fill="currentColor"
+          >
+            <path
+              fillRule="evenodd"
+              d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z"
+              clipRule="evenodd"
+            />
+          </svg>
+        ) : (
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-5 w-5 inline-block"
+            viewBox="0 0 20 20"
+            fill="currentColor"
+          >
+            <path
+              fillRule="evenodd"
+              d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z"
+              clipRule="evenodd"
+            />
+          </svg>
+        )}
+      </button>
+
+      {showSpeeds &&
+        PLAYBACK_RATES.filter((speed) => speed !== 1).map((speed) => (
+          <button
+            key={speed}
+            type="button"
+            onClick={(e) => handleSpeed(e, speed)}
+            title={`Replay ${label} at ${speed}x speed`}
+            className={`ml-1 text-xs font-semibold px-1.5 py-0.5 rounded border transition-colors ${
+              status === "playing" && rate === speed
+                ? "bg-indigo-600 border-indigo-600 text-white"
+                : "border-indigo-300 text-indigo-600 hover:bg-indigo-50"
+            }`}
+          >
+            {speed}x
+          </button>
+        ))}
+    </span>
+  );
+};
+
+export default AudioPlayer;
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import AudioPlayer from "./AudioPlayer";
+import Waveform from "./Waveform";
+import {
+  clipDuration,
+  decodeAudio,
+  encodeWav,
+  normalizePeak,
+  trimSilence,
+  waveformPeaks,
+} from "../lib/audioProcessing";
+import {
+  isRecordingSupported,
+  useAudioRecorder,
+} from "../lib/useAudioRecorder";
+
+interface AudioRecorderProps {
+  label: string;
+  /** Called with the cleaned-up recording once the teacher accepts it. */
+  onRecorded: (file: File) => void;
+}
+
+interface ProcessedTake {
+  file: File;
+  url: string;
+  peaks: number[];
+  duration: number;
+  trimmedSeconds: number;
+}
+
+const WAVEFORM_BARS = 60;
+
+// ===============================================
+// RECORD / STOP / RE-RECORD CONTROL
+// ===============================================
+
+const AudioRecorder = ({ label, onRecorded }: AudioRecorderProps) => {
+  const recorder = useAudioRecorder();
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [processError, setProcessError] = useState<string | null>(null);
+  const [take, setTake] = useState<ProcessedTake | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+
+  // Tick the recording timer
+  useEffect(() => {
+    if (recorder.status !== "recording") return;
+    const startedAt = Date.now();
+    setElapsed(0);
+    const timer = window.setInterval(
+      () => setElapsed((Date.now() - startedAt) / 1000),
+      200
+    );
+    return () => window.clearInterval(timer);
+  }, [recorder.status]);
+
+  // Release the preview URL of a take once it is replaced or discarded
+  useEffect(() => {
+    if (!take) return;
+    return () => URL.revokeObjectURL(take.url);
+  }, [take]);
+
+  if (!isRecordingSupported()) return null;
+
+  const startRecording = () => {
+    setTake(null);
+    setProcessError(null);
+    recorder.start();
+  };
+
+  const stopRecording = async () => {
+    setIsProcessing(true);
+    try {
+      const raw = await decodeAudio(await recorder.stop());
+      const clip = normalizePeak(trimSilence(raw));
+      const file = new File([encodeWav(clip)], `recording-${Date.now()}.wav`, {
+        type: "audio/wav",
+      });
+      setTake({
+        file,
+        url: URL.createObjectURL(file),
+        peaks: waveformPeaks(clip.samples, WAVEFORM_BARS),
+        duration: clipDuration(clip),
+        trimmedSeconds: clipDuration(raw) - clipDuration(clip),
+      });
+    } catch (error) {
+      console.error("Processing the recording failed:", error);
+      setProcessError("The recording could not be processed. Try again.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const acceptTake = () => {
+    if (!take) return;
+    onRecorded(take.file);
+    setTake(null);
+  };
+
+  return (
+    <div className="mt-2">
+      {recorder.status === "recording" ? (
+        <button
+          type="button"
+          onClick={stopRecording}
+          className="text-sm bg-red-600 text-white px-3 py-1 rounded hover:bg-red-700 transition-colors flex items-center"
+        >
+          <span className="w-2 h-2 bg-white rounded-full mr-2 animate-pulse"></span>
+          Stop ({elapsed.toFixed(1)}s)
+        </button>
+      ) : (
+        !take && (
+          <button
+            type="button"
+            onClick={startRecording}
+            disabled={isProcessing || recorder.status === "requesting"}
+            className="text-sm border border-red-500 text-red-600 px-3 py-1 rounded hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            {isProcessing
+              ? "Processing…"
+              : recorder.status === "requesting"
+                ? "Waiting for microphone…"
+                : "● Record"}
+          </button>
+        )
+      )}
+
+      {(recorder.error || processError) && (
+        <p className="text-xs text-red-600 mt-1">
+          {recorder.error || processError}
+        </p>
+      )}
+
+      {take && (
+        <div className="mt-2 p-3 border border-indigo-200 rounded bg-indigo-50">
+          <Waveform peaks={take.peaks} />
+          <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-xs text-gray-600">
+            <span>
+              {take.duration.toFixed(1)}s
+              {take.trimmedSeconds > 0.05 &&
+                ` • ${take.trimmedSeconds.toFixed(1)}s of silence trimmed`}
+              <AudioPlayer src={take.url} label={`${label} recording`} />
+            </span>
+            <span className="flex space-x-2">
+              <button
+                type="button"
+                onClick={startRecording}
+                className="px-2 py-1 border border-gray-400 rounded hover:bg-white"
+              >
+                Re-record
+              </button>
+              <button
+                type="button"
+                onClick={() => setTake(null)}
+                className="px-2 py-1 text-red-600 hover:text-red-800"
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                onClick={acceptTake}
+                className="px-2 py-1 bg-green-600 text-white rounded hover:bg-green-700"
+              >
+                Use Recording
+              </button>
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioRecorder;
@@ -0,0 +1,29 @@
+import { arabiziToArabic } from "../lib/transliteration";
+import type { DarijaScript } from "../lib/transliteration";
+
+interface DarijaTextProps {
+  /** The phrase as authored, in Arabizi. */
+  text: string;
+  script: DarijaScript;
+}
+
+/** A Darija phrase in the lesson's chosen script. */
+const DarijaText = ({ text, script }: DarijaTextProps) => {
+  if (script === "latin") return <>{text}</>;
+
+  const arabic = (
+    <span dir="rtl" lang="ar">
+      {arabiziToArabic(text)}
+    </span>
+  );
+  if (script === "arabic") return arabic;
+
+  return (
+    <span className="inline-flex flex-col items-center leading-tight">
+      <span>{text}</span>
+      <span className="text-[0.85em] opacity-75">{arabic}</span>
+    </span>
+  );
+};
+
+export default DarijaText;
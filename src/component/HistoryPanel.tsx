@@ -0,0 +1,70 @@
+import { useState } from "react";
+import type { UndoHistory } from "../lib/useUndoableReducer";
+
+interface HistoryPanelProps {
+  history: UndoHistory;
+}
+
+// ===============================================
+// UNDO / REDO CONTROLS AND EDIT HISTORY
+// ===============================================
+
+const HistoryPanel = ({ history }: HistoryPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { steps, position, canUndo, canRedo, undo, redo, goTo } = history;
+
+  return (
+    <div className="mb-6 text-sm">
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={undo}
+          disabled={!canUndo}
+          title={canUndo ? `Undo ${steps[position - 1]} (Ctrl+Z)` : "Undo"}
+          className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+        >
+          ↶ Undo
+        </button>
+        <button
+          onClick={redo}
+          disabled={!canRedo}
+          title={canRedo ? `Redo ${steps[position]} (Ctrl+Shift+Z)` : "Redo"}
+          className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+        >
+          ↷ Redo
+        </button>
+        <button
+          onClick={() => setIsOpen((open) => !open)}
+          aria-expanded={isOpen}
+          className="text-indigo-600 hover:text-indigo-800"
+        >
+          {isOpen ? "Hide history" : `History (${steps.length})`}
+        </button>
+      </div>
+
+      {isOpen && (
+        <ol className="mt-3 max-h-60 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {/* Position 0 is the lesson as opened */}
+          {["Opened lesson", ...steps].map((label, index) => (
+            <li key={index}>
+              <button
+                onClick={() => goTo(index)}
+                aria-current={index === position ? "step" : undefined}
+                className={`w-full text-left px-3 py-2 hover:bg-gray-50 ${
+                  index === position
+                    ? "font-semibold text-indigo-700 bg-indigo-50"
+                    : index > position
+                      ? "text-gray-400 line-through"
+                      : "text-gray-700"
+                }`}
+              >
+                {label}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import Link from "./Link";
+import { DEMO_LESSON_ID, DUMMY_LESSON_DATA } from "../lib/demoLesson";
+import { publishedLesson } from "../lib/lessonPublishing";
+import { listLessons } from "../lib/lessonRepository";
+import { loadProgress, progressStatus } from "../lib/progressStore";
+import type { ProgressStatus } from "../lib/progressStore";
+import { dueCards, loadDeck } from "../lib/reviewDeck";
+import { pathFor } from "../lib/router";
+
+interface LessonListing {
+  id: string;
+  title: string;
+  description: string;
+  activityCount: number;
+}
+
+const STATUS_BADGES: Record<
+  ProgressStatus,
+  { label: string; className: string; action: string }
+> = {
+  "not-started": {
+    label: "Not started",
+    className: "bg-gray-100 text-gray-600",
+    action: "Start",
+  },
+  "in-progress": {
+    label: "In progress",
+    className: "bg-yellow-100 text-yellow-800",
+    action: "Resume",
+  },
+  completed: {
+    label: "Completed",
+    className: "bg-green-100 text-green-800",
+    action: "Practice again",
+  },
+};
+
+const DEMO_LISTING: LessonListing = {
+  id: DEMO_LESSON_ID,
+  title: DUMMY_LESSON_DATA.title,
+  description: DUMMY_LESSON_DATA.objectives.join(" "),
+  activityCount: DUMMY_LESSON_DATA.activities.length,
+};
+
+// Learners see the demo plus the latest published version of each lesson
+const loadListings = async (): Promise<LessonListing[]> => [
+  DEMO_LISTING,
+  ...(await listLessons()).lessons.flatMap((lesson) => {
+    const published =
+      lesson.status === "published" ? publishedLesson(lesson) : undefined;
+    return published
+      ? [
+          {
+            id: String(lesson.id),
+            title: published.title || "Untitled Lesson",
+            description: published.description,
+            activityCount: published.activities.length,
+          },
+        ]
+      : [];
+  }),
+];
+
+// ===============================================
+// LEARNER LESSON LIST
+// ===============================================
+
+const LearnerLessonList = () => {
+  // The demo is always there; saved lessons join it once they have loaded
+  const [lessons, setLessons] = useState([DEMO_LISTING]);
+  useEffect(() => {
+    let cancelled = false;
+    loadListings()
+      .then((listings) => {
+        if (!cancelled) setLessons(listings);
+      })
+      .catch((error) => console.error("Loading lessons failed:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+  const dueCount = dueCards(loadDeck()).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4">
+        <h1 className="text-3xl font-bold text-gray-800 mb-6">My Lessons</h1>
+        {dueCount > 0 && (
+          <div className="mb-6 p-4 bg-indigo-50 border border-indigo-200 rounded-xl flex items-center justify-between">
+            <span className="text-gray-700">
+              🗂️ {dueCount} {dueCount === 1 ? "card" : "cards"} due for review
+            </span>
+            <Link
+              href={pathFor({ name: "review" })}
+              className="text-indigo-600 hover:text-indigo-800 font-semibold"
+            >
+              Review now →
+            </Link>
+          </div>
+        )}
+        <div className="space-y-4">
+          {lessons.map((lesson) => {
+            const progress = loadProgress(lesson.id);
+            const badge = STATUS_BADGES[progressStatus(progress)];
+            return (
+              <div
+                key={lesson.id}
+                className="bg-white rounded-xl shadow p-5 flex items-center justify-between"
+              >
+                <div>
+                  <div className="flex items-center space-x-3 mb-1">
+                    <h2 className="text-lg font-semibold text-gray-800">
+                      {lesson.title}
+                    </h2>
+                    <span
+                      className={`px-2 py-1 text-xs rounded-full ${badge.className}`}
+                    >
+                      {badge.label}
+                    </span>
+                  </div>
+                  {lesson.description && (
+                    <p className="text-gray-600 text-sm mb-1">
+                      {lesson.description}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {lesson.activityCount} activities
+                    {progress?.completedAt &&
+                      ` • Completed ${new Date(progress.completedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <Link
+                  href={pathFor({ name: "learn", lessonId: lesson.id })}
+                  className="bg-indigo-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-indigo-700 transition-colors whitespace-nowrap"
+                >
+                  {badge.action}
+                </Link>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LearnerLessonList;
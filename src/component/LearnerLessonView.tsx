@@ -1,152 +1,198 @@
-import React, { useState, useEffect } from 'react';
-
-// ===============================================
-// DUMMY LESSON DATA (FOR DEMO/PREVIEW)
-// ===============================================
-
-// Helper to parse the Fill-in-the-Blanks text template (e.g., "Shno {smeetk}?")
-const parseFillInBlanks = (template) => {
-    if (!template) return { sentenceTemplate: [], correctWords: [] };
-    const parts = template.split(/(\{.*?\})/g).filter(p => p.length > 0);
-    const sentenceTemplate = [];
-    let blankIndex = 0;
-    const correctWords = [];
-
-    parts.forEach(part => {
-        if (part.startsWith('{') && part.endsWith('}')) {
-            const word = part.substring(1, part.length - 1).trim();
-            sentenceTemplate.push({ blank: blankIndex, correct: word });
-            correctWords.push(word);
-            blankIndex++;
-        } else {
-            sentenceTemplate.push({ text: part });
-        }
-    });
-
-    return { sentenceTemplate, correctWords };
-};
-
-
-export const DUMMY_LESSON_DATA = {
-    title: "Lesson 1: Greetings and Goodbyes",
-    objectives: [
-        "Use greeting and goodbye expressions.",
-        "Correctly use Nta/Nty.",
-    ],
-    introParts: [
-        "Welcome! This lesson covers basic Moroccan Darija greetings and goodbyes.",
-        "🗣️ GramStop: The pronoun 'you' has two versions: Nta (Masculine) and Nty (Feminine)."
-    ],
-    activities: [
-        // --- ACTIVITY 1: Multiple Choice ---
-        {
-            id: 1,
-            type: "multiple-choice",
-            question: { 
-                translation: "What is the correct way to say 'Good morning'?", 
-                audioUrl: "/audio/q_morning.mp3" 
-            },
-            options: [
-                { text: "Msa L5eer", translation: "Good evening", audioUrl: "/audio/msa_l5eer.mp3", isCorrect: false },
-                { text: "Sba7 L5eer", translation: "Good morning", audioUrl: "/audio/sba7_l5eer.mp3", isCorrect: true },
-                { text: "B'slama", translation: "Goodbye", audioUrl: "/audio/bslama.mp3", isCorrect: false },
-            ],
-            feedback: "Sba7 L5eer literally means 'Morning of goodness'."
-        },
-        // --- ACTIVITY 2: Fill-in-the-Blanks with Word Blocks ---
-        {
-            id: 2,
-            type: "fill-in-blanks",
-            question: { 
-                text: "Smeety Alex, o {nty}?", 
-                translation: "How about you? (Addressing a female)", 
-                audioUrl: "/audio/q_blanks.mp3" 
-            }, 
-            wordPool: ["nta", "nty", "Labass", "Smeetk"],
-            feedback: "Remember to use NTY when asking a female.",
-        },
-        // --- ACTIVITY 3: Dialogue / Listening ---
-        {
-            id: 3,
-            type: "dialogue",
-            question: { translation: "Read and listen to the conversation:", audioUrl: null },
-            items: [
-                { text: "Salam!", translation: "Hello!", audioUrl: "/audio/salam.mp3" },
-                { text: "Wa 3alaykum assalam!", translation: "Hello (response)!", audioUrl: "/audio/wa_salam.mp3" },
-                { text: "Keedayr?", translation: "How are you? (Masc)", audioUrl: "/audio/keedayr.mp3" },
-            ],
-            feedback: "This is a typical short greeting exchange."
-        },
-        // --- ACTIVITY 4: Match Image ---
-        {
-            id: 4,
-            type: "match-image",
-            question: { translation: "Match the phrase with the correct emoji:", audioUrl: "/audio/q_match.mp3" },
-            pairs: [
-                { text: "Tsb7 3la 5eer", translation: "Good night", image: "🌃", audioUrl: "/audio/tsb7.mp3", id: 'p1' },
-                { text: "B'slama", translation: "Goodbye", image: "👋", audioUrl: "/audio/bslama.mp3", id: 'p3' },
-                { text: "Msa L5eer", translation: "Good evening", image: "🌇", audioUrl: "/audio/msa_l5eer.mp3", id: 'p2' },
-            ],
-            feedback: "Good use of visual aids!"
-        },
-    ]
-};
-
-
-// ===============================================
-// UTILITY COMPONENTS
-// ===============================================
-
-const AudioPlayer = ({ src, label }) => {
-    const handlePlay = () => alert(`Simulating playback for: ${src ? src.split('/').pop() : 'N/A'} (${label})`);
-    if (!src) return null;
-    return (
-        <button onClick={handlePlay} className="ml-2 text-indigo-600 hover:text-indigo-800 focus:outline-none">
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 inline-block" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
-            </svg>
-        </button>
-    );
-};
+import { useState, useEffect, useRef } from 'react';
+import AudioPlayer from './AudioPlayer';
+import DarijaText from './DarijaText';
+import WordDiff from './WordDiff';
+import LessonSummary from './LessonSummary';
+import SpeakPractice from './SpeakPractice';
+import { diffWords, isSameDarija, matchAnswer, matchTypedAnswer, spellingNote } from '../lib/answerMatching';
+import type { TypedAnswerMatch } from '../lib/answerMatching';
+import { saveAsset } from '../lib/assetStore';
+import { playClip, stopPlayback } from '../lib/audioPlayback';
+import { DEFAULT_LESSON_SETTINGS, isImageUrl, parseFillInBlanks } from '../lib/lessonSchema';
+import {
+    createSession,
+    finishSession,
+    isGraded,
+    recordAttempt,
+    requeueActivity,
+    summarizeSession,
+} from '../lib/lessonSession';
+import { SELF_RATINGS, canResume, getLearnerId, loadProgress, saveProgress, saveRecording } from '../lib/progressStore';
+import type { SelfRating } from '../lib/progressStore';
+import { addLessonToDeck } from '../lib/reviewDeck';
+import { arabicToArabizi, arabiziToArabic } from '../lib/transliteration';
+import { shuffle, shuffleUnsolved } from '../lib/shuffle';
+import type { Activity, Lesson, MatchPair } from '../lib/lessonSchema';
+
+type MatchSide = 'image' | 'phrase';
+
+const PairImage = ({ pair }: { pair: MatchPair }) =>
+    isImageUrl(pair.image)
+        ? <img src={pair.image} alt="" className="h-20 w-20 object-cover rounded" draggable={false} />
+        : <span className="text-4xl">{pair.image}</span>;
 
 // ===============================================
 // MAIN LEARNER COMPONENT
 // ===============================================
 
-const LearnerLessonView = ({ lessonData }) => {
-    const [step, setStep] = useState(0); 
+interface LearnerLessonViewProps {
+    lessonData: Lesson;
+    /** Step to open on: 0 is the introduction, N is activity N. */
+    initialStep?: number;
+    /** Saves progress under this id so the learner can resume; the teacher preview leaves it out. */
+    lessonId?: string;
+}
+
+const LearnerLessonView = ({ lessonData, initialStep = 0, lessonId }: LearnerLessonViewProps) => {
+    const [step, setStep] = useState(initialStep); 
     const [isAnswered, setIsAnswered] = useState(false);
     const [isCorrect, setIsCorrect] = useState(false);
-    const [selectedAnswer, setSelectedAnswer] = useState(null); 
-    const [matchingState, setMatchingState] = useState({});
-    const [blanksState, setBlanksState] = useState({}); 
-    const [availableWords, setAvailableWords] = useState([]);
-
-    const totalSteps = lessonData.activities.length + 1; 
-    const currentContent = step === 0 ? lessonData : lessonData.activities[step - 1];
-    const isActivity = step > 0;
+    const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null); 
+    const [blanksState, setBlanksState] = useState<Record<number, string>>({}); 
+    const [availableWords, setAvailableWords] = useState<string[]>([]);
+    // Ordering: orderState[position] is the index of the authored item shown there
+    const [orderState, setOrderState] = useState<number[]>([]);
+    const [pickedPosition, setPickedPosition] = useState<number | null>(null);
+    const [dragPosition, setDragPosition] = useState<number | null>(null);
+    // Match-image: matches[imagePairId] is the id of the phrase connected to that image
+    const [matches, setMatches] = useState<Record<string, string>>({});
+    const [matchColumns, setMatchColumns] = useState<{ images: string[]; phrases: string[] }>({ images: [], phrases: [] });
+    const [pickedMatch, setPickedMatch] = useState<{ side: MatchSide; id: string } | null>(null);
+    const [dragPhraseId, setDragPhraseId] = useState<string | null>(null);
+    // Translate: what the learner typed and how it compared to the accepted answers
+    const [typedAnswer, setTypedAnswer] = useState('');
+    const [typedMatch, setTypedMatch] = useState<TypedAnswerMatch | null>(null);
+    // Speak: the learner's latest take and how they rated it
+    const [speakTake, setSpeakTake] = useState<Blob | null>(null);
+    const [selfRating, setSelfRating] = useState<SelfRating | null>(null);
+    // Scoring: every checked answer, and the play order with re-queued mistakes
+    const [session, setSession] = useState(() => createSession(lessonData));
+    const [attemptCount, setAttemptCount] = useState(0);
+    // "Accepted, but the usual spelling is…" notes for the last checked answer
+    const [spellingNotes, setSpellingNotes] = useState<string[]>([]);
+    const attemptStartedAt = useRef(Date.now());
+    // Progress: an unfinished earlier run is offered on the introduction
+    const [savedRun] = useState(() => {
+        const saved = lessonId ? loadProgress(lessonId) : undefined;
+        return canResume(saved, lessonData) ? saved : null;
+    });
+    const [offerResume, setOfferResume] = useState(savedRun !== null);
+
+    const settings = { ...DEFAULT_LESSON_SETTINGS, ...lessonData.settings };
+    const totalSteps = session.queue.length + 1; 
+    const currentActivity = step > 0 && step < totalSteps ? lessonData.activities[session.queue[step - 1]] : null;
+    const canRetry = attemptCount <= settings.maxRetries;
+    // A missed activity comes back once at the end, not again on its second round
+    const willRequeue = settings.requeueMistakes && step <= lessonData.activities.length;
+    // Keep the solution hidden while the learner still has a retry
+    const revealAnswer = isAnswered && (isCorrect || !canRetry);
     
     // Derived state for Fill-in-the-Blanks
-    const { sentenceTemplate, correctWords } = isActivity && currentContent.type === 'fill-in-blanks' 
-        ? parseFillInBlanks(currentContent.question.text) 
-        : { sentenceTemplate: [], correctWords: [] };
+    const { sentenceTemplate, correctWords } = currentActivity?.type === 'fill-in-blanks' 
+        ? parseFillInBlanks(currentActivity.question.text) 
+        : parseFillInBlanks(undefined);
     
-    const blankParts = sentenceTemplate.filter(p => p.blank !== undefined);
-    const allBlanksFilled = Object.keys(blanksState).length === blankParts.length;
+    const blankParts = sentenceTemplate.flatMap(p => p.blank !== undefined ? [p] : []);
+    const allBlanksFilled = blankParts.length > 0 && Object.keys(blanksState).length === blankParts.length;
+
+    // Derived state for Ordering: an item is in place when it matches the authored item at that position
+    const isInPlace = (position: number) =>
+        currentActivity?.type === 'ordering' &&
+        isSameDarija(currentActivity.items[orderState[position]]?.text ?? '', currentActivity.items[position]?.text ?? '');
+
+    // Derived state for Match-image: a pair is right when the phrase sits on its own image
+    const matchPairs = currentActivity?.type === 'match-image' ? currentActivity.pairs : [];
+    const correctMatchCount = matchPairs.filter(pair => matches[pair.id] === pair.id).length;
+    const allPairsMatched = matchPairs.length > 0 && matchPairs.every(pair => matches[pair.id] !== undefined);
+    const imageForPhrase = (phraseId: string) => Object.keys(matches).find(imageId => matches[imageId] === phraseId);
+
+    // Derived state for Translate and Dictation: which language the learner types in
+    const isTypedAnswer = currentActivity?.type === 'translate' || currentActivity?.type === 'dictation';
+    const typedLanguage = currentActivity?.type === 'translate' && currentActivity.direction === 'to-english' ? 'english' : 'darija';
+    const typedDiff = isTypedAnswer && isAnswered && typedMatch && typedMatch.status !== 'exact' && revealAnswer
+        ? diffWords(typedAnswer, typedMatch.closest, typedLanguage)
+        : null;
+
+    const canCheck = !currentActivity
+        || currentActivity.type === 'dialogue'
+        || currentActivity.type === 'ordering'
+        || selectedAnswer !== null
+        || allBlanksFilled
+        || allPairsMatched
+        || typedAnswer.trim() !== ''
+        // A speaking attempt needs a take for the teacher to review
+        || (speakTake !== null && selfRating !== null);
 
 
     // Effect to initialize word blocks when activity changes
     useEffect(() => {
-        if (isActivity && currentContent.type === 'fill-in-blanks' && !isAnswered) {
-            setAvailableWords([...currentContent.wordPool].sort(() => Math.random() - 0.5));
+        if (currentActivity?.type === 'fill-in-blanks' && !isAnswered) {
+            setAvailableWords([...currentActivity.wordPool].sort(() => Math.random() - 0.5));
             setBlanksState({});
         }
     }, [step, isAnswered]);
 
+    // Effect to shuffle the items when an ordering activity opens
+    useEffect(() => {
+        if (currentActivity?.type === 'ordering' && !isAnswered) {
+            const { items } = currentActivity;
+            setOrderState(shuffleUnsolved(items.map((_, i) => i), (a, b) => items[a].text === items[b].text));
+            setPickedPosition(null);
+        }
+    }, [currentActivity, isAnswered]);
+
+    // Effect to shuffle both columns when a match-image activity opens
+    useEffect(() => {
+        if (currentActivity?.type === 'match-image' && !isAnswered) {
+            const images = shuffle(currentActivity.pairs.map(pair => pair.id));
+            // Phrases never line up row-for-row with their images
+            setMatchColumns({ images, phrases: shuffleUnsolved(images) });
+            setMatches({});
+            setPickedMatch(null);
+        }
+    }, [currentActivity, isAnswered]);
+
+    // Effect to time each attempt from the moment the activity opens
+    useEffect(() => {
+        if (!isAnswered) attemptStartedAt.current = Date.now();
+    }, [step, isAnswered]);
+
+    // Effect to play the prompt audio as each activity opens
+    const promptAudioUrl = currentActivity?.type === 'speak'
+        ? currentActivity.phrase.audioUrl ?? currentActivity.question.audioUrl
+        : currentActivity?.question.audioUrl;
+    useEffect(() => {
+        if (promptAudioUrl) {
+            playClip(promptAudioUrl);
+        } else {
+            stopPlayback();
+        }
+    }, [step, promptAudioUrl]);
+
+    // Effect to silence any clip when the player goes away
+    useEffect(() => stopPlayback, []);
+
+    // Effect to save progress after every step and answer, leaving an earlier run alone until the learner picks
+    useEffect(() => {
+        if (!lessonId || offerResume) return;
+        const previous = loadProgress(lessonId);
+        saveProgress({
+            learnerId: getLearnerId(),
+            lessonId,
+            activityIds: lessonData.activities.map(activity => activity.id),
+            publishedVersion: lessonData.version,
+            step,
+            session,
+            updatedAt: new Date().toISOString(),
+            completedAt: session.finishedAt ?? previous?.completedAt ?? null,
+            recordings: previous?.recordings,
+        });
+    }, [lessonId, lessonData, offerResume, step, session]);
+
 
     // --- HANDLERS ---
     
-    const handleWordBlockTap = (word) => {
+    const handleWordBlockTap = (word: string) => {
         if (isAnswered) return;
 
         const nextBlankIndex = blankParts.find(p => blanksState[p.blank] === undefined)?.blank;
@@ -157,7 +203,7 @@ const LearnerLessonView = ({ lessonData }) => {
         }
     };
 
-    const handleBlankClick = (blankIndex) => {
+    const handleBlankClick = (blankIndex: number) => {
         if (isAnswered) return;
         const wordToReturn = blanksState[blankIndex];
         if (wordToReturn) {
@@ -170,28 +216,164 @@ const LearnerLessonView = ({ lessonData }) => {
         }
     };
 
-    const handleAnswerSelect = (answerId) => {
+    const moveOrderItem = (from: number, to: number) => {
+        if (isAnswered || from === to) return;
+        setOrderState(prev => {
+            const next = [...prev];
+            const [moved] = next.splice(from, 1);
+            next.splice(to, 0, moved);
+            return next;
+        });
+    };
+
+    // Tap one item to pick it up, then tap another position to drop it there
+    const handleOrderItemTap = (position: number) => {
+        if (isAnswered) return;
+        if (pickedPosition === null) {
+            setPickedPosition(position);
+        } else {
+            moveOrderItem(pickedPosition, position);
+            setPickedPosition(null);
+        }
+    };
+
+    const handleOrderDrop = (position: number) => {
+        if (dragPosition !== null) moveOrderItem(dragPosition, position);
+        setDragPosition(null);
+        setPickedPosition(null);
+    };
+
+    const connectPair = (imageId: string, phraseId: string) => {
+        setMatches(prev => {
+            const next: Record<string, string> = {};
+            // A phrase can only sit on one image at a time
+            Object.entries(prev).forEach(([img, phr]) => { if (phr !== phraseId) next[img] = phr; });
+            next[imageId] = phraseId;
+            return next;
+        });
+    };
+
+    const disconnectImage = (imageId: string) => {
+        setMatches(prev => {
+            const next = { ...prev };
+            delete next[imageId];
+            return next;
+        });
+    };
+
+    // Tap a card on one side and then a card on the other to connect them; tap a connected card to undo
+    const handleMatchTap = (side: MatchSide, id: string) => {
+        if (isAnswered) return;
+
+        const connectedImage = side === 'image' ? (matches[id] !== undefined ? id : undefined) : imageForPhrase(id);
+        if (!pickedMatch && connectedImage !== undefined) {
+            disconnectImage(connectedImage);
+            return;
+        }
+
+        if (!pickedMatch || pickedMatch.side === side) {
+            setPickedMatch(pickedMatch?.id === id ? null : { side, id });
+            return;
+        }
+
+        if (side === 'image') {
+            connectPair(id, pickedMatch.id);
+        } else {
+            connectPair(pickedMatch.id, id);
+        }
+        setPickedMatch(null);
+    };
+
+    const handlePhraseDrop = (imageId: string) => {
+        if (dragPhraseId !== null && !isAnswered) connectPair(imageId, dragPhraseId);
+        setDragPhraseId(null);
+        setPickedMatch(null);
+    };
+
+    const handleAnswerSelect = (answerId: string) => {
         if (isAnswered) return;
         setSelectedAnswer(answerId);
     };
 
     const checkAnswer = () => {
-        if (step === 0) { setIsCorrect(true); setIsAnswered(true); return; }
+        if (!currentActivity) { setIsCorrect(true); setIsAnswered(true); return; }
 
         let correct = false;
+        // Plain-words answer and solution, for the mistakes review
+        let answer = '';
+        let expected = '';
+        let notes: string[] = [];
         
-        switch (currentContent.type) {
+        switch (currentActivity.type) {
             case 'multiple-choice':
-                correct = currentContent.options.find(opt => opt.text === selectedAnswer)?.isCorrect || false;
+                correct = currentActivity.options.find(opt => opt.text === selectedAnswer)?.isCorrect || false;
+                answer = selectedAnswer ?? '';
+                expected = currentActivity.options.filter(opt => opt.isCorrect).map(opt => opt.text).join(' / ');
                 break;
 
-            case 'fill-in-blanks':
-                correct = blankParts.every(part => blanksState[part.blank] === part.correct);
+            case 'fill-in-blanks': {
+                const blankMatches = blankParts.map(part => matchAnswer(blanksState[part.blank] ?? '', part.accepted));
+                correct = blankMatches.every(match => match.status !== 'wrong');
+                notes = blankMatches.flatMap(match => spellingNote(match) ?? []);
+                answer = blankParts.map(part => blanksState[part.blank] ?? '___').join(', ');
+                expected = correctWords.join(', ');
                 break;
+            }
                 
+            case 'ordering': {
+                const { items } = currentActivity;
+                correct = orderState.every((_, position) => isInPlace(position));
+                answer = orderState.map(i => items[i].text).join(' → ');
+                expected = items.map(item => item.text).join(' → ');
+                break;
+            }
+
+            case 'match-image': {
+                correct = correctMatchCount === matchPairs.length;
+                const pictureName = (pair: MatchPair) => isImageUrl(pair.image) ? pair.translation || 'picture' : pair.image;
+                const wrongPairs = matchPairs.filter(pair => matches[pair.id] !== pair.id);
+                answer = wrongPairs
+                    .map(pair => `${pictureName(pair)} = ${matchPairs.find(p => p.id === matches[pair.id])?.text ?? '?'}`)
+                    .join(', ');
+                expected = wrongPairs.map(pair => `${pictureName(pair)} = ${pair.text}`).join(', ');
+                break;
+            }
+
+            case 'translate':
+            case 'dictation': {
+                const match = matchTypedAnswer(typedAnswer, currentActivity.acceptedAnswers, typedLanguage);
+                correct = match.status !== 'wrong';
+                if (match.status === 'variant') notes = [spellingNote({ status: 'variant', usual: match.closest }) ?? ''];
+                if (match.status === 'close') notes = ['Accepted, but check the spelling below.'];
+                setTypedMatch(match);
+                answer = typedAnswer.trim();
+                expected = currentActivity.acceptedAnswers[0] ?? '';
+                break;
+            }
+
+            case 'speak': {
+                correct = true;
+                answer = `Self-rated: ${SELF_RATINGS.find(r => r.value === selfRating)?.label ?? ''}`;
+                expected = currentActivity.phrase.text;
+                // Keep the take for the teacher; the lesson carries on while it saves
+                if (lessonId && speakTake && selfRating) {
+                    const activityId = currentActivity.id;
+                    const rating = selfRating;
+                    saveAsset(speakTake)
+                        .then(assetId => saveRecording(lessonId, {
+                            activityId,
+                            assetId,
+                            recordedAt: new Date().toISOString(),
+                            selfRating: rating,
+                            teacherScore: null,
+                            scoredAt: null,
+                        }))
+                        .catch(error => console.error('Saving the recording failed:', error));
+                }
+                break;
+            }
+
             case 'dialogue':
-            case 'match-image':
-            case 'ordering':
                 correct = true;
                 break;
 
@@ -199,44 +381,140 @@ const LearnerLessonView = ({ lessonData }) => {
                 correct = false;
         }
 
+        setSession(prev => recordAttempt(prev, {
+            activityId: currentActivity.id,
+            type: currentActivity.type,
+            correct,
+            answer,
+            expected,
+            durationMs: Date.now() - attemptStartedAt.current,
+        }));
+        setAttemptCount(count => count + 1);
+        setSpellingNotes(correct ? notes : []);
         setIsCorrect(correct);
         setIsAnswered(true);
     };
 
+    const resetActivityState = () => {
+        setIsAnswered(false);
+        setIsCorrect(false);
+        setTypedAnswer('');
+        setTypedMatch(null);
+        setSpeakTake(null);
+        setSelfRating(null);
+        setSpellingNotes([]);
+        setSelectedAnswer(null);
+        setBlanksState({}); 
+        setOrderState([]);
+        setPickedPosition(null);
+        setMatches({});
+        setMatchColumns({ images: [], phrases: [] });
+        setPickedMatch(null);
+    };
+
+    // Same activity again; the effects above reshuffle it once isAnswered is false
+    const handleRetry = () => {
+        resetActivityState();
+    };
+
     const handleContinue = () => {
         if (step < totalSteps) {
+            let next = session;
+            if (currentActivity && isGraded(currentActivity) && !isCorrect && willRequeue) {
+                next = requeueActivity(next, session.queue[step - 1]);
+            }
+            if (step + 1 === next.queue.length + 1) {
+                next = finishSession(next);
+                if (lessonId) addLessonToDeck(lessonData, next);
+            }
+            setSession(next);
             setStep(step + 1);
-            setIsAnswered(false);
-            setIsCorrect(false);
-            setSelectedAnswer(null);
-            setBlanksState({}); 
-            setMatchingState({});
+            setAttemptCount(0);
+            setOfferResume(false);
+            resetActivityState();
         }
     };
 
+    const handleRestart = () => {
+        setSession(createSession(lessonData));
+        setStep(0);
+        setAttemptCount(0);
+        setOfferResume(false);
+        resetActivityState();
+    };
+
+    const handleResume = () => {
+        if (!savedRun) return;
+        setSession(savedRun.session);
+        setStep(savedRun.step);
+        setAttemptCount(0);
+        setOfferResume(false);
+        resetActivityState();
+    };
+
     // --- RENDER FUNCTIONS FOR ACTIVITIES ---
 
-    const renderActivityContent = (activity) => {
+    // Answer box for activities where the learner types, with the model answer once revealed
+    const renderTypedAnswer = (modelAnswer: string, inDarija: boolean) => (
+        <>
+            <input
+                type="text"
+                value={typedAnswer}
+                onChange={(e) => setTypedAnswer(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !isAnswered && canCheck) checkAnswer();
+                }}
+                disabled={isAnswered}
+                autoFocus
+                dir="auto"
+                placeholder={inDarija ? 'Type it in Darija…' : 'Type it in English…'}
+                className={`w-full p-4 text-xl border-2 rounded-lg focus:outline-none focus:border-indigo-500 ${
+                    !isAnswered ? 'border-gray-300' : isCorrect ? 'border-green-500 bg-green-50' : 'border-red-500 bg-red-50'
+                }`}
+            />
+            {/* The typed answer in the other script: Arabic script is graded as its Arabizi reading */}
+            {inDarija && typedAnswer.trim() && (
+                /\p{Script=Arabic}/u.test(typedAnswer) ? (
+                    <p className="text-gray-600">{arabicToArabizi(typedAnswer)}</p>
+                ) : settings.script !== 'latin' && (
+                    <p dir="rtl" lang="ar" className="text-right text-gray-600">{arabiziToArabic(typedAnswer)}</p>
+                )
+            )}
+            {revealAnswer && !isCorrect && (
+                <p className="text-center text-sm text-red-700">
+                    Model answer: {inDarija ? <DarijaText text={modelAnswer} script={settings.script} /> : modelAnswer}
+                </p>
+            )}
+        </>
+    );
+
+    const renderActivityContent = (activity: Activity) => {
         switch (activity.type) {
             case 'multiple-choice':
                 return (
                     <div className="space-y-3">
                         {activity.options.map((opt, i) => (
-                            <button
+                            <div
                                 key={i}
-                                onClick={() => handleAnswerSelect(opt.text)}
-                                disabled={isAnswered}
-                                className={`w-full p-4 border rounded-lg text-left transition text-gray-800 ${
-                                    isAnswered && opt.isCorrect ? 'bg-green-100 border-green-500' :
+                                className={`flex items-center border rounded-lg transition text-gray-800 ${
+                                    revealAnswer && opt.isCorrect ? 'bg-green-100 border-green-500' :
                                     isAnswered && opt.text === selectedAnswer && !opt.isCorrect ? 'bg-red-100 border-red-500' :
                                     opt.text === selectedAnswer ? 'bg-indigo-100 border-indigo-500' :
                                     'bg-gray-50 hover:bg-gray-100'
                                 }`}
                             >
-                                <span className="font-bold">{opt.text}</span>
-                                <span className="text-sm ml-2 text-gray-500">({opt.translation})</span>
-                                <AudioPlayer src={opt.audioUrl} label={opt.text} />
-                            </button>
+                                <button
+                                    onClick={() => handleAnswerSelect(opt.text)}
+                                    disabled={isAnswered}
+                                    className="flex-grow p-4 text-left"
+                                >
+                                    <span className="font-bold"><DarijaText text={opt.text} script={settings.script} /></span>
+                                    <span className="text-sm ml-2 text-gray-500">({opt.translation})</span>
+                                </button>
+                                <span className="pr-4">
+                                    <AudioPlayer src={opt.audioUrl} label={opt.text} />
+                                </span>
+                            </div>
                         ))}
                     </div>
                 );
@@ -245,14 +523,14 @@ const LearnerLessonView = ({ lessonData }) => {
                 return (
                     <div className="space-y-8">
                         {/* 1. Sentence with Blanks */}
-                        <div className="text-3xl font-bold flex flex-wrap justify-center space-x-2 min-h-[100px] items-center">
+                        <div dir={settings.script === 'arabic' ? 'rtl' : undefined} className="text-3xl font-bold flex flex-wrap justify-center gap-2 min-h-[100px] items-center">
                             {sentenceTemplate.map((part, i) => {
                                 if (part.text) {
-                                    return <span key={i} className="text-gray-700">{part.text}</span>;
+                                    return <span key={i} className="text-gray-700"><DarijaText text={part.text} script={settings.script} /></span>;
                                 } else if (part.blank !== undefined) {
                                     const word = blanksState[part.blank];
-                                    const isFinalCorrect = isAnswered && word === part.correct;
-                                    const isFinalIncorrect = isAnswered && word !== part.correct;
+                                    const isFinalCorrect = isAnswered && matchAnswer(word ?? '', part.accepted).status !== 'wrong';
+                                    const isFinalIncorrect = isAnswered && !isFinalCorrect;
 
                                     return (
                                         <button 
@@ -266,7 +544,7 @@ const LearnerLessonView = ({ lessonData }) => {
                                                 'bg-indigo-100 border-indigo-500 text-indigo-700 hover:bg-indigo-200'
                                             }`}
                                         >
-                                            {word || "____"}
+                                            {word ? <DarijaText text={word} script={settings.script} /> : "____"}
                                         </button>
                                     );
                                 }
@@ -285,12 +563,12 @@ const LearnerLessonView = ({ lessonData }) => {
                                         disabled={isAnswered || allBlanksFilled}
                                         className="bg-indigo-500 text-white py-2 px-4 rounded-full shadow-md hover:bg-indigo-600 transition disabled:bg-gray-400"
                                     >
-                                        {word}
+                                        <DarijaText text={word} script={settings.script} />
                                     </button>
                                 ))}
                             </div>
-                            {isAnswered && !isCorrect && (
-                                <p className="mt-4 text-center text-sm text-red-700">The correct word was: {correctWords.join(', ')}</p>
+                            {revealAnswer && !isCorrect && (
+                                <p className="mt-4 text-center text-sm text-red-700">The correct word was: <DarijaText text={correctWords.join(', ')} script={settings.script} /></p>
                             )}
                         </div>
                     </div>
@@ -301,7 +579,7 @@ const LearnerLessonView = ({ lessonData }) => {
                     <div className="space-y-4">
                         {activity.items.map((item, i) => (
                             <div key={i} className={`p-3 rounded-lg ${i % 2 === 0 ? 'bg-blue-50 text-left' : 'bg-gray-50 text-right'}`}>
-                                <p className="font-bold text-lg">{item.text}</p>
+                                <p className="font-bold text-lg"><DarijaText text={item.text} script={settings.script} /></p>
                                 <p className="text-sm text-gray-600">({item.translation}) <AudioPlayer src={item.audioUrl} label={item.text} /></p>
                             </div>
                         ))}
@@ -313,32 +591,207 @@ const LearnerLessonView = ({ lessonData }) => {
                     </div>
                 );
 
-            case 'match-image':
+            case 'match-image': {
+                // Columns are shuffled in an effect, so skip ids left over from a previous activity
+                const pairById = (id: string) => activity.pairs.find(pair => pair.id === id);
+                // Connected cards share a number: the row of the image they sit on
+                const matchNumber = (imageId: string) => matchColumns.images.indexOf(imageId) + 1;
+                const cardClass = (side: MatchSide, id: string, connected: boolean) =>
+                    pickedMatch?.side === side && pickedMatch.id === id ? 'bg-indigo-100 border-indigo-500 ring-2 ring-indigo-300' :
+                    connected ? 'bg-indigo-50 border-indigo-400' :
+                    'bg-gray-50 hover:bg-gray-100';
+
                 return (
-                    <div className="grid grid-cols-3 gap-4">
-                        {activity.pairs.map((pair) => (
-                            <button
-                                key={pair.id}
-                                onClick={() => handleAnswerSelect(pair.id)}
-                                disabled={isAnswered}
-                                className={`flex flex-col items-center justify-center p-4 border rounded-lg text-center h-40 transition ${
-                                    isAnswered && selectedAnswer === pair.id ? 'bg-green-100 border-green-500' :
-                                    selectedAnswer === pair.id ? 'bg-indigo-100 border-indigo-500' :
-                                    'bg-gray-50 hover:bg-gray-100'
-                                }`}
-                            >
-                                <span className="text-4xl mb-2">{pair.image}</span>
-                                <span className="font-bold">{pair.text}</span>
-                                <span className="text-xs text-gray-500">({pair.translation})</span>
-                                <AudioPlayer src={pair.audioUrl} label={pair.text} />
-                            </button>
-                        ))}
-                        {isAnswered && <p className="col-span-3 mt-4 text-center text-sm text-gray-600">In a real app, you would drag and drop lines to match.</p>}
+                    <div className="w-full space-y-4">
+                        <p className="text-sm text-gray-500 text-center">
+                            Tap a picture and then its phrase, or drag a phrase onto its picture.
+                        </p>
+                        <div className="grid grid-cols-2 gap-6">
+                            <div className="space-y-3">
+                                {matchColumns.images.map(imageId => {
+                                    const pair = pairById(imageId);
+                                    if (!pair) return null;
+                                    const phraseId = matches[imageId];
+                                    const isRight = phraseId === imageId;
+                                    return (
+                                        <button
+                                            key={imageId}
+                                            onClick={() => handleMatchTap('image', imageId)}
+                                            onDragOver={(e) => e.preventDefault()}
+                                            onDrop={() => handlePhraseDrop(imageId)}
+                                            disabled={isAnswered}
+                                            className={`relative w-full flex flex-col items-center justify-center p-3 border rounded-lg min-h-[7rem] transition ${
+                                                isAnswered ? (isRight ? 'bg-green-100 border-green-500' : 'bg-red-100 border-red-500') :
+                                                cardClass('image', imageId, phraseId !== undefined)
+                                            }`}
+                                        >
+                                            {phraseId !== undefined && (
+                                                <span className="absolute top-2 left-2 w-6 h-6 rounded-full bg-indigo-600 text-white text-xs font-bold flex items-center justify-center">
+                                                    {matchNumber(imageId)}
+                                                </span>
+                                            )}
+                                            <PairImage pair={pair} />
+                                            {revealAnswer && !isRight && (
+                                                <span className="mt-2 text-sm text-green-800">✓ <DarijaText text={pair.text} script={settings.script} /></span>
+                                            )}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+
+                            <div className="space-y-3">
+                                {matchColumns.phrases.map(phraseId => {
+                                    const pair = pairById(phraseId);
+                                    if (!pair) return null;
+                                    const imageId = imageForPhrase(phraseId);
+                                    return (
+                                        <div
+                                            key={phraseId}
+                                            draggable={!isAnswered}
+                                            onDragStart={() => setDragPhraseId(phraseId)}
+                                            onDragEnd={() => setDragPhraseId(null)}
+                                            className={`relative flex items-center border rounded-lg min-h-[7rem] transition ${
+                                                isAnswered ? (imageId === phraseId ? 'bg-green-100 border-green-500' : 'bg-red-100 border-red-500') :
+                                                dragPhraseId === phraseId ? 'opacity-50 bg-gray-50' :
+                                                cardClass('phrase', phraseId, imageId !== undefined)
+                                            } ${isAnswered ? '' : 'cursor-grab'}`}
+                                        >
+                                            {imageId !== undefined && (
+                                                <span className="absolute top-2 left-2 w-6 h-6 rounded-full bg-indigo-600 text-white text-xs font-bold flex items-center justify-center">
+                                                    {matchNumber(imageId)}
+                                                </span>
+                                            )}
+                                            <button
+                                                onClick={() => handleMatchTap('phrase', phraseId)}
+                                                disabled={isAnswered}
+                                                className="flex-grow h-full p-3 pl-10 text-left"
+                                            >
+                                                <span className="block font-bold text-gray-800"><DarijaText text={pair.text} script={settings.script} /></span>
+                                                {pair.translation && <span className="text-xs text-gray-500">({pair.translation})</span>}
+                                            </button>
+                                            <span className="pr-3">
+                                                <AudioPlayer src={pair.audioUrl} label={pair.text} />
+                                            </span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                        {isAnswered && (
+                            <p className={`text-center text-sm font-semibold ${isCorrect ? 'text-green-700' : 'text-red-700'}`}>
+                                Score: {correctMatchCount}/{matchPairs.length} pairs
+                            </p>
+                        )}
                     </div>
                 );
-            
+            }
+
+            case 'ordering':
+                return (
+                    <div className="w-full space-y-4">
+                        <p className="text-sm text-gray-500 text-center">
+                            Drag the items into the right order, or tap one and then tap where it should go.
+                        </p>
+                        <ol className="space-y-2">
+                            {orderState.map((itemIndex, position) => {
+                                const item = activity.items[itemIndex];
+                                const inPlace = isInPlace(position);
+                                return (
+                                    <li
+                                        key={itemIndex}
+                                        draggable={!isAnswered}
+                                        onDragStart={() => setDragPosition(position)}
+                                        onDragOver={(e) => e.preventDefault()}
+                                        onDrop={() => handleOrderDrop(position)}
+                                        onDragEnd={() => setDragPosition(null)}
+                                        className={`flex items-center border rounded-lg transition ${
+                                            isAnswered && inPlace ? 'bg-green-100 border-green-500' :
+                                            isAnswered ? 'bg-red-100 border-red-500' :
+                                            pickedPosition === position ? 'bg-indigo-100 border-indigo-500 ring-2 ring-indigo-300' :
+                                            dragPosition === position ? 'opacity-50 bg-gray-50' :
+                                            'bg-gray-50 hover:bg-gray-100 cursor-grab'
+                                        }`}
+                                    >
+                                        <button
+                                            onClick={() => handleOrderItemTap(position)}
+                                            disabled={isAnswered}
+                                            className="flex-grow flex items-center p-3 text-left"
+                                        >
+                                            <span className="text-gray-400 mr-3 select-none" aria-hidden="true">⋮⋮</span>
+                                            <span className="font-bold text-gray-800"><DarijaText text={item.text} script={settings.script} /></span>
+                                            {item.translation && <span className="text-sm ml-2 text-gray-500">({item.translation})</span>}
+                                        </button>
+                                        <span className="pr-3">
+                                            <AudioPlayer src={item.audioUrl} label={item.text} />
+                                        </span>
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                        {revealAnswer && !isCorrect && (
+                            <p className="text-center text-sm text-red-700">
+                                The correct order was: <DarijaText text={activity.items.map(item => item.text).join(' → ')} script={settings.script} />
+                            </p>
+                        )}
+                    </div>
+                );
+
+            case 'translate': {
+                const toDarija = activity.direction === 'to-darija';
+                return (
+                    <div className="w-full space-y-4">
+                        <p className="text-3xl font-bold text-center text-gray-800">
+                            {toDarija ? activity.question.text : <DarijaText text={activity.question.text} script={settings.script} />}
+                        </p>
+                        {renderTypedAnswer(activity.acceptedAnswers[0] ?? '', toDarija)}
+                    </div>
+                );
+            }
+
+            case 'speak':
+                return (
+                    <div className="w-full space-y-6">
+                        <div className="text-center">
+                            <p className="text-3xl font-bold text-gray-800"><DarijaText text={activity.phrase.text} script={settings.script} /></p>
+                            <p className="text-gray-600">({activity.phrase.translation})</p>
+                        </div>
+                        <SpeakPractice key={step} modelUrl={activity.phrase.audioUrl} onTake={setSpeakTake} disabled={isAnswered} />
+                        <div>
+                            <p className="text-sm font-semibold text-gray-700 mb-2 text-center">How close were you to the model?</p>
+                            <div className="flex justify-center gap-3">
+                                {SELF_RATINGS.map(rating => (
+                                    <button
+                                        key={rating.value}
+                                        onClick={() => setSelfRating(rating.value)}
+                                        disabled={isAnswered}
+                                        className={`py-2 px-4 rounded-lg border-2 transition ${
+                                            selfRating === rating.value ? 'bg-indigo-100 border-indigo-500' : 'border-gray-200 hover:bg-gray-50'
+                                        }`}
+                                    >
+                                        {rating.label}
+                                    </button>
+                                ))}
+                            </div>
+                            {!speakTake && !isAnswered && (
+                                <p className="mt-2 text-sm text-gray-500 text-center">Record yourself to check your answer.</p>
+                            )}
+                        </div>
+                    </div>
+                );
+
+            case 'dictation':
+                return (
+                    <div className="w-full space-y-4">
+                        <div className="flex flex-col items-center text-5xl">
+                            <AudioPlayer src={activity.question.audioUrl} label="dictation clip" showSpeeds />
+                            <p className="mt-2 text-sm text-gray-500">Replay it as often as you like, or at 0.75x and 0.5x to hear it slower.</p>
+                        </div>
+                        {renderTypedAnswer(activity.acceptedAnswers[0] ?? '', true)}
+                    </div>
+                );
+
             default:
-                return <p className="text-red-500">Activity Type Not Supported Yet: {activity.type}</p>;
+                return <p className="text-red-500">Activity Type Not Supported Yet: {(activity as { type: string }).type}</p>;
         }
     };
 
@@ -348,12 +801,11 @@ const LearnerLessonView = ({ lessonData }) => {
 
     if (step === totalSteps) {
         return (
-            <div className="flex flex-col items-center justify-center min-h-screen p-4 bg-gray-100">
-                <div className="text-center bg-white p-10 rounded-xl shadow-2xl">
-                    <h1 className="text-4xl font-extrabold text-green-600 mb-4">🎉 Congratulations!</h1>
-                    <p className="text-xl text-gray-700">You have completed the <strong>{lessonData.title}</strong> lesson successfully.</p>
-                </div>
-            </div>
+            <LessonSummary
+                title={lessonData.title}
+                summary={summarizeSession(lessonData, session)}
+                onRestart={handleRestart}
+            />
         );
     }
     
@@ -371,25 +823,40 @@ const LearnerLessonView = ({ lessonData }) => {
 
             <main className="flex-grow flex items-center justify-center p-4">
                 <div className="max-w-3xl w-full bg-white p-6 md:p-10 rounded-xl shadow-2xl">
-                    {!isActivity && (
+                    {!currentActivity && (
                         <div>
+                            {offerResume && savedRun && (
+                                <div className="mb-6 p-4 bg-indigo-50 border border-indigo-200 rounded-lg flex flex-wrap items-center justify-between gap-3">
+                                    <p className="text-gray-700">
+                                        Welcome back! You were on step {savedRun.step + 1} of {savedRun.session.queue.length + 1}.
+                                    </p>
+                                    <div className="flex space-x-2">
+                                        <button onClick={handleResume} className="bg-indigo-600 text-white hover:bg-indigo-700 py-2 px-4 rounded-lg font-bold">
+                                            Resume where you left off
+                                        </button>
+                                        <button onClick={() => setOfferResume(false)} className="border border-gray-300 text-gray-700 hover:bg-gray-50 py-2 px-4 rounded-lg">
+                                            Start over
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
                             <h2 className="text-2xl font-bold mb-4 text-indigo-700">Lesson Objectives</h2>
                             <ul className="list-disc list-inside space-y-2 mb-6">
-                                {currentContent.objectives.map((obj, i) => <li key={i} className="text-gray-700">{obj}</li>)}
+                                {lessonData.objectives.map((obj, i) => <li key={i} className="text-gray-700">{obj}</li>)}
                             </ul>
                             <h2 className="text-2xl font-bold mb-4 text-indigo-700">Introduction</h2>
-                            {currentContent.introParts.map((p, i) => <p key={i} className="mb-3 text-gray-700">{p}</p>)}
+                            {lessonData.introParts.map((p, i) => <p key={i} className="mb-3 text-gray-700">{p}</p>)}
                         </div>
                     )}
                     
-                    {isActivity && (
+                    {currentActivity && (
                         <div>
                             <h2 className="text-xl font-bold mb-4 text-gray-800">
-                                {currentContent.question.translation}
-                                {currentContent.question.audioUrl && <AudioPlayer src={currentContent.question.audioUrl} label="Question" />}
+                                {currentActivity.question.translation}
+                                {currentActivity.question.audioUrl && currentActivity.type !== 'dictation' && <AudioPlayer src={currentActivity.question.audioUrl} label="Question" showSpeeds />}
                             </h2>
                             <div className="min-h-[200px] flex items-center justify-center">
-                                {renderActivityContent(currentContent)}
+                                {renderActivityContent(currentActivity)}
                             </div>
                         </div>
                     )}
@@ -403,9 +870,9 @@ const LearnerLessonView = ({ lessonData }) => {
                     {!isAnswered ? (
                         <button 
                             onClick={checkAnswer} 
-                            disabled={!(step === 0 || currentContent.type === 'dialogue' || selectedAnswer || allBlanksFilled)}
+                            disabled={!canCheck}
                             className={`py-3 px-6 rounded-lg font-bold transition ${
-                                (step === 0 || currentContent.type === 'dialogue' || selectedAnswer || allBlanksFilled) 
+                                canCheck 
                                 ? 'bg-indigo-600 hover:bg-indigo-700' 
                                 : 'bg-gray-500 cursor-not-allowed'
                             }`}
@@ -417,12 +884,27 @@ const LearnerLessonView = ({ lessonData }) => {
                             <span className="font-semibold text-lg">
                                 {isCorrect ? '🎉 Correct!' : '❌ Incorrect.'}
                                 <span className="mr-2 block md:inline text-sm font-normal ml-2">
-                                    {isCorrect ? currentContent.feedback : 'Review the rule and try again.'}
+                                    {isCorrect ? [...spellingNotes, currentActivity?.feedback].filter(Boolean).join(' ')
+                                        : currentActivity?.type === 'match-image' ? `You matched ${correctMatchCount} of ${matchPairs.length} pairs correctly.`
+                                        : canRetry ? 'Review the rule and try again.'
+                                        : willRequeue ? "You'll see this activity again at the end."
+                                        : 'Check the correct answer above.'}
                                 </span>
+                                {typedDiff && (
+                                    <span className="block mt-1 text-sm font-normal bg-white text-gray-800 rounded px-2 py-1">
+                                        <WordDiff diff={typedDiff} />
+                                    </span>
+                                )}
                             </span>
-                            <button onClick={handleContinue} className="bg-indigo-600 hover:bg-indigo-700 py-2 px-4 rounded-lg font-bold">
-                                Continue →
-                            </button>
+                            {!isCorrect && canRetry ? (
+                                <button onClick={handleRetry} className="bg-white text-red-700 hover:bg-red-50 py-2 px-4 rounded-lg font-bold">
+                                    Try Again
+                                </button>
+                            ) : (
+                                <button onClick={handleContinue} className="bg-indigo-600 hover:bg-indigo-700 py-2 px-4 rounded-lg font-bold">
+                                    Continue →
+                                </button>
+                            )}
                         </>
                     )}
                 </div>
@@ -431,6 +913,4 @@ const LearnerLessonView = ({ lessonData }) => {
     );
 };
 
-export default function App() {
-    return <LearnerLessonView lessonData={DUMMY_LESSON_DATA} />;
-}
\ No newline at end of file
+export default LearnerLessonView;
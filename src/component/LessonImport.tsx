@@ -0,0 +1,197 @@
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import {
+  defaultImportAction,
+  importLessonPackage,
+  readLessonPackage,
+} from "../lib/lessonPackage";
+import type { ImportAction, PackageCheck } from "../lib/lessonPackage";
+import { isQuotaError, listLessons } from "../lib/lessonRepository";
+import type { LessonDraft } from "../lib/lessonSchema";
+
+interface LessonImportProps {
+  /** Called once lessons have been saved. */
+  onImported: () => void;
+}
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  add: "Add",
+  copy: "Add as a copy",
+  replace: "Replace my lesson",
+  skip: "Skip",
+};
+
+// ===============================================
+// IMPORT: PICK A FILE, PREVIEW, CONFIRM
+// ===============================================
+
+const LessonImport = ({ onImported }: LessonImportProps) => {
+  const [check, setCheck] = useState<PackageCheck | null>(null);
+  const [actions, setActions] = useState<Record<number, ImportAction>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [savedLessons, setSavedLessons] = useState<LessonDraft[]>([]);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const result = readLessonPackage(await file.text());
+    const { lessons } = await listLessons();
+    setSavedLessons(lessons);
+    setCheck(result);
+    setActions(
+      Object.fromEntries(
+        (result.lessonPackage?.lessons ?? []).map((lesson) => [
+          lesson.id,
+          defaultImportAction(lesson, lessons),
+        ])
+      )
+    );
+  };
+
+  const confirmImport = async () => {
+    if (!check?.lessonPackage) return;
+    setIsImporting(true);
+    try {
+      await importLessonPackage(check.lessonPackage, actions);
+      setCheck(null);
+      onImported();
+    } catch (error) {
+      console.error("Import failed:", error);
+      alert(
+        isQuotaError(error)
+          ? "Your browser's storage is full, so the import stopped part way. Delete lessons you no longer need and try again."
+          : "The lessons could not be imported. Please try again."
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const lessonPackage = check?.lessonPackage;
+  const chosenCount = Object.values(actions).filter(
+    (action) => action !== "skip"
+  ).length;
+
+  return (
+    <>
+      <label className="cursor-pointer bg-white text-indigo-600 border border-indigo-600 px-4 py-3 rounded-lg font-semibold hover:bg-indigo-50 transition-colors">
+        Import…
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </label>
+
+      {check && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-10">
+          <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">
+              Import Lessons
+            </h2>
+
+            {check.errors.length > 0 && (
+              <div className="p-3 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <p className="font-semibold">This file can't be imported:</p>
+                <ul className="list-disc list-inside">
+                  {check.errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {check.warnings.length > 0 && (
+              <ul className="p-3 mb-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 list-disc list-inside">
+                {check.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+
+            {lessonPackage && (
+              <>
+                <p className="text-sm text-gray-600 mb-3">
+                  {lessonPackage.lessons.length} lesson(s) and{" "}
+                  {Object.keys(lessonPackage.assets).length} audio or image
+                  file(s), exported{" "}
+                  {new Date(lessonPackage.exportedAt).toLocaleDateString()}.
+                </p>
+                <div className="grid gap-3 mb-6">
+                  {lessonPackage.lessons.map((lesson) => {
+                    const collides = savedLessons.some(
+                      (saved) => saved.id === lesson.id
+                    );
+                    const options: ImportAction[] = collides
+                      ? ["copy", "replace", "skip"]
+                      : ["add", "skip"];
+                    return (
+                      <div
+                        key={lesson.id}
+                        className="border border-gray-200 rounded-lg p-3 flex justify-between items-center gap-3"
+                      >
+                        <div>
+                          <h3 className="font-semibold text-gray-800">
+                            {lesson.title || "Untitled lesson"}
+                          </h3>
+                          <p className="text-sm text-gray-600">
+                            {lesson.activities.length} activities •{" "}
+                            {lesson.level}
+                            {collides && (
+                              <span className="ml-2 text-xs font-semibold bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded-full">
+                                Already in your lessons
+                              </span>
+                            )}
+                          </p>
+                        </div>
+                        <select
+                          value={actions[lesson.id]}
+                          onChange={(e) =>
+                            setActions((prev) => ({
+                              ...prev,
+                              [lesson.id]: e.target.value as ImportAction,
+                            }))
+                          }
+                          className="p-2 border border-gray-300 rounded-lg bg-white text-sm"
+                        >
+                          {options.map((action) => (
+                            <option key={action} value={action}>
+                              {ACTION_LABELS[action]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setCheck(null)}
+                className="px-4 py-2 rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              {lessonPackage && (
+                <button
+                  onClick={confirmImport}
+                  disabled={isImporting || chosenCount === 0}
+                  className="bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isImporting ? "Importing…" : `Import ${chosenCount}`}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default LessonImport;
@@ -0,0 +1,85 @@
+import { lintErrors } from "../lib/lessonLinter";
+import type { LintIssue } from "../lib/lessonLinter";
+
+interface LessonLintPanelProps {
+  issues: LintIssue[];
+  isOpen: boolean;
+  onToggle: () => void;
+  /** Takes the teacher to where `issue` can be fixed. */
+  onFix: (issue: LintIssue) => void;
+}
+
+// ===============================================
+// LESSON CHECK: ERRORS AND WARNINGS BEFORE PUBLISHING
+// ===============================================
+
+const LessonLintPanel = ({
+  issues,
+  isOpen,
+  onToggle,
+  onFix,
+}: LessonLintPanelProps) => {
+  const errorCount = lintErrors(issues).length;
+  const warningCount = issues.length - errorCount;
+
+  return (
+    <div
+      className={`mt-8 p-4 border rounded-lg text-sm ${
+        errorCount > 0
+          ? "bg-red-50 border-red-200"
+          : warningCount > 0
+            ? "bg-yellow-50 border-yellow-200"
+            : "bg-green-50 border-green-200"
+      }`}
+    >
+      <div className="flex items-center justify-between">
+        <p className="font-semibold text-gray-800">
+          {issues.length === 0
+            ? "✓ Lesson check: no problems found"
+            : `Lesson check: ${errorCount} error(s), ${warningCount} warning(s)`}
+          {errorCount > 0 && (
+            <span className="font-normal text-red-700">
+              {" "}
+              · fix the errors to publish
+            </span>
+          )}
+        </p>
+        {issues.length > 0 && (
+          <button
+            onClick={onToggle}
+            aria-expanded={isOpen}
+            className="text-indigo-600 hover:text-indigo-800"
+          >
+            {isOpen ? "Hide" : "Show"}
+          </button>
+        )}
+      </div>
+
+      {isOpen && issues.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {issues.map((issue, index) => (
+            <li key={index} className="flex items-center justify-between gap-3">
+              <span
+                className={
+                  issue.severity === "error"
+                    ? "text-red-700"
+                    : "text-yellow-800"
+                }
+              >
+                {issue.severity === "error" ? "⛔" : "⚠️"} {issue.message}
+              </span>
+              <button
+                onClick={() => onFix(issue)}
+                className="text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+              >
+                Fix →
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LessonLintPanel;
@@ -0,0 +1,81 @@
+import { useMemo, useState } from "react";
+import LearnerLessonView from "./LearnerLessonView";
+import { toLearnerLesson } from "../lib/lessonSchema";
+import type { LessonDraft } from "../lib/lessonSchema";
+
+interface LessonPreviewProps {
+  lesson: LessonDraft;
+  onBack: () => void;
+}
+
+// ===============================================
+// DRAFT LESSON PREVIEW
+// Runs the learner player on the lesson as it is being edited.
+// ===============================================
+
+const LessonPreview = ({ lesson, onBack }: LessonPreviewProps) => {
+  const lessonData = useMemo(() => toLearnerLesson(lesson), [lesson]);
+  // Each jump restarts the player, so `run` forces a remount even when the
+  // same step is picked twice.
+  const [start, setStart] = useState({ step: 0, run: 0 });
+
+  const jumpTo = (step: number) =>
+    setStart((prev) => ({ step, run: prev.run + 1 }));
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-100">
+      <div className="w-full bg-yellow-100 border-b border-yellow-300">
+        <div className="max-w-6xl mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center space-x-3">
+            <span className="bg-yellow-500 text-white text-xs font-bold uppercase px-2 py-1 rounded">
+              Preview
+            </span>
+            <span className="text-sm text-gray-700">
+              Learners will see <strong>{lesson.title || "Untitled"}</strong>{" "}
+              like this. Progress is not saved.
+            </span>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <label className="text-sm font-semibold text-gray-700">
+              Jump to
+            </label>
+            <select
+              value={start.step}
+              onChange={(e) => jumpTo(Number(e.target.value))}
+              className="p-2 border border-gray-300 rounded bg-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              <option value={0}>Introduction</option>
+              {lessonData.activities.map((activity, index) => (
+                <option key={activity.id} value={index + 1}>
+                  Activity {index + 1}:{" "}
+                  {lesson.activities[index]?.title || activity.type}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => jumpTo(start.step)}
+              className="text-sm px-3 py-2 border border-gray-400 rounded text-gray-700 hover:bg-yellow-200 transition-colors"
+            >
+              Restart
+            </button>
+            <button
+              onClick={onBack}
+              className="text-sm bg-indigo-600 text-white px-4 py-2 rounded hover:bg-indigo-700 transition-colors"
+            >
+              ← Back to Editing
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <LearnerLessonView
+        key={start.run}
+        lessonData={lessonData}
+        initialStep={start.step}
+      />
+    </div>
+  );
+};
+
+export default LessonPreview;
@@ -0,0 +1,333 @@
+import { useEffect, useReducer, useState } from "react";
+import { diffLessons, fieldLabel, isEmptyDiff } from "../lib/lessonDiff";
+import type { FieldChange } from "../lib/lessonDiff";
+import { resolveLessonAssets } from "../lib/lessonAssets";
+import {
+  deleteRevision,
+  listRevisions,
+  saveRevision,
+} from "../lib/lessonRevisions";
+import type { LessonRevision } from "../lib/lessonRevisions";
+import type { ActivityDraft, LessonDraft } from "../lib/lessonSchema";
+
+interface LessonRevisionsProps {
+  lesson: LessonDraft;
+  /** Changes whenever a revision is saved elsewhere, e.g. on publish. */
+  version: number;
+  onRestoreLesson: (lesson: LessonDraft) => void;
+  /** Puts `activity` back, replacing the current one with its id or
+   * inserting it at `index`. */
+  onRestoreActivity: (activity: ActivityDraft, index: number) => void;
+}
+
+/** Compare against the lesson being edited rather than a revision. */
+const CURRENT = "current";
+
+const FieldChangeRow = ({ change }: { change: FieldChange }) => (
+  <div className="grid grid-cols-[8rem_1fr] gap-2">
+    <span className="text-gray-500 capitalize">{fieldLabel(change.field)}</span>
+    <span>
+      <span className="text-red-700 line-through">{change.before || "—"}</span>
+      {" → "}
+      <span className="text-green-700">{change.after || "—"}</span>
+    </span>
+  </div>
+);
+
+// ===============================================
+// NAMED SNAPSHOTS, DIFF AND RESTORE
+// ===============================================
+
+const LessonRevisions = ({
+  lesson,
+  version,
+  onRestoreLesson,
+  onRestoreActivity,
+}: LessonRevisionsProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<LessonRevision[] | null>(null);
+  const [name, setName] = useState("");
+  const [compareFromId, setCompareFromId] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<string>(CURRENT);
+  const [reloadCount, reload] = useReducer((count: number) => count + 1, 0);
+  const lessonId = lesson.id;
+
+  // Snapshots come with playable file URLs, ready to restore
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    listRevisions(lessonId)
+      .then((stored) =>
+        Promise.all(
+          stored.map(async (revision) => ({
+            ...revision,
+            lesson: await resolveLessonAssets(revision.lesson).catch(
+              () => revision.lesson
+            ),
+          }))
+        )
+      )
+      .then((loaded) => {
+        if (!cancelled) setRevisions(loaded);
+      })
+      .catch((error) => {
+        console.error("Loading revisions failed:", error);
+        if (!cancelled) setRevisions([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, lessonId, version, reloadCount]);
+
+  const takeSnapshot = async () => {
+    try {
+      await saveRevision(
+        lesson,
+        name.trim() || `Snapshot ${new Date().toLocaleString()}`
+      );
+      setName("");
+      reload();
+    } catch (error) {
+      console.error("Saving the revision failed:", error);
+      alert("The snapshot could not be saved. Please try again.");
+    }
+  };
+
+  const removeRevision = async (revision: LessonRevision) => {
+    if (!window.confirm(`Delete the revision "${revision.name}"?`)) return;
+    try {
+      await deleteRevision(revision.id);
+      if (compareFromId === revision.id) setCompareFromId(null);
+      if (compareTo === String(revision.id)) setCompareTo(CURRENT);
+      reload();
+    } catch (error) {
+      console.error("Deleting the revision failed:", error);
+      alert("The revision could not be deleted. Please try again.");
+    }
+  };
+
+  const restoreRevision = (revision: LessonRevision) => {
+    if (
+      window.confirm(
+        `Replace the lesson with "${revision.name}"? You can undo this.`
+      )
+    ) {
+      onRestoreLesson(revision.lesson);
+    }
+  };
+
+  const compareFrom = revisions?.find(
+    (revision) => revision.id === compareFromId
+  );
+  const compareToLesson =
+    compareTo === CURRENT
+      ? lesson
+      : revisions?.find((revision) => String(revision.id) === compareTo)
+          ?.lesson;
+  const diff =
+    compareFrom && compareToLesson
+      ? diffLessons(compareFrom.lesson, compareToLesson)
+      : null;
+  // Single activities can only be restored into the lesson being edited
+  const canRestoreActivities = compareTo === CURRENT;
+
+  return (
+    <div className="mb-6 text-sm">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="text-indigo-600 hover:text-indigo-800"
+      >
+        {isOpen ? "Hide revisions" : "Revisions…"}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-4">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder='Snapshot name, e.g. "Before restructuring unit 2"'
+              className="flex-1 p-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+            <button
+              onClick={takeSnapshot}
+              className="px-4 py-2 rounded bg-indigo-600 text-white hover:bg-indigo-700"
+            >
+              Save snapshot
+            </button>
+          </div>
+
+          {revisions === null ? (
+            <p className="text-gray-500">Loading revisions…</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-gray-500">
+              No revisions yet. Save a snapshot, or publish the lesson to keep
+              one automatically.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+              {revisions.map((revision) => (
+                <li
+                  key={revision.id}
+                  className={`flex items-center justify-between gap-3 px-3 py-2 ${
+                    revision.id === compareFromId ? "bg-indigo-50" : ""
+                  }`}
+                >
+                  <div>
+                    <span className="font-semibold text-gray-800">
+                      {revision.name}
+                    </span>
+                    {revision.kind === "publish" && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full bg-green-100 text-green-800 text-xs">
+                        Published
+                      </span>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      {new Date(revision.createdAt).toLocaleString()} ·{" "}
+                      {revision.lesson.activities.length} activities
+                    </p>
+                  </div>
+                  <div className="flex space-x-3 whitespace-nowrap">
+                    <button
+                      onClick={() => setCompareFromId(revision.id)}
+                      className="text-indigo-600 hover:text-indigo-800"
+                    >
+                      Compare
+                    </button>
+                    <button
+                      onClick={() => restoreRevision(revision)}
+                      className="text-indigo-600 hover:text-indigo-800"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => removeRevision(revision)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {compareFrom && diff && (
+            <div className="p-3 border border-gray-200 rounded-lg bg-white space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="font-semibold text-gray-800">
+                  Changes from "{compareFrom.name}" to{" "}
+                  <select
+                    value={compareTo}
+                    onChange={(e) => setCompareTo(e.target.value)}
+                    className="ml-1 p-1 border border-gray-300 rounded bg-white font-normal"
+                  >
+                    <option value={CURRENT}>the current lesson</option>
+                    {revisions
+                      ?.filter((revision) => revision.id !== compareFrom.id)
+                      .map((revision) => (
+                        <option key={revision.id} value={revision.id}>
+                          {revision.name}
+                        </option>
+                      ))}
+                  </select>
+                </p>
+                <button
+                  onClick={() => setCompareFromId(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  Close
+                </button>
+              </div>
+
+              {isEmptyDiff(diff) ? (
+                <p className="text-gray-500">No differences.</p>
+              ) : (
+                <>
+                  {diff.fields.length > 0 && (
+                    <div className="space-y-1">
+                      <h4 className="font-semibold text-gray-700">Lesson</h4>
+                      {diff.fields.map((change) => (
+                        <FieldChangeRow key={change.field} change={change} />
+                      ))}
+                    </div>
+                  )}
+
+                  {diff.activities.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="font-semibold text-gray-700">
+                        Activities
+                      </h4>
+                      {diff.activities.map((change) => {
+                        if (change.kind === "added") {
+                          return (
+                            <p
+                              key={`added-${change.activity.id}`}
+                              className="text-green-700"
+                            >
+                              + Added "{change.activity.title}"
+                            </p>
+                          );
+                        }
+                        const restored =
+                          change.kind === "removed"
+                            ? change.activity
+                            : change.before;
+                        return (
+                          <div
+                            key={`${change.kind}-${restored.id}`}
+                            className="space-y-1"
+                          >
+                            <div className="flex items-center justify-between">
+                              <p
+                                className={
+                                  change.kind === "removed"
+                                    ? "text-red-700"
+                                    : "text-yellow-800"
+                                }
+                              >
+                                {change.kind === "removed"
+                                  ? `− Removed "${restored.title}"`
+                                  : `~ Changed "${change.after.title}"${
+                                      change.moved ? " (moved)" : ""
+                                    }`}
+                              </p>
+                              {canRestoreActivities && (
+                                <button
+                                  onClick={() =>
+                                    onRestoreActivity(restored, change.index)
+                                  }
+                                  className="text-indigo-600 hover:text-indigo-800"
+                                >
+                                  Restore this activity
+                                </button>
+                              )}
+                            </div>
+                            {change.kind === "changed" && (
+                              <div className="pl-4 space-y-1">
+                                {change.fields.map((field) => (
+                                  <FieldChangeRow
+                                    key={field.field}
+                                    change={field}
+                                  />
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LessonRevisions;
@@ -0,0 +1,33 @@
+import { hasUnpublishedChanges, latestVersion } from "../lib/lessonPublishing";
+import type { LessonDraft, LessonStatus } from "../lib/lessonSchema";
+
+const STATUS_BADGES: Record<
+  LessonStatus,
+  { label: string; className: string }
+> = {
+  draft: { label: "Draft", className: "bg-gray-100 text-gray-600" },
+  published: { label: "Published", className: "bg-green-100 text-green-800" },
+  archived: { label: "Archived", className: "bg-gray-200 text-gray-500" },
+};
+
+/** Where a lesson is in the draft → published → archived workflow. */
+const LessonStatusBadge = ({ lesson }: { lesson: LessonDraft }) => {
+  const { label, className } = STATUS_BADGES[lesson.status];
+  const version = latestVersion(lesson)?.version;
+
+  return (
+    <span className="inline-flex items-center space-x-2">
+      <span className={`px-2 py-1 text-xs rounded-full ${className}`}>
+        {label}
+        {lesson.status === "published" && version && ` v${version}`}
+      </span>
+      {lesson.status === "published" && hasUnpublishedChanges(lesson) && (
+        <span className="px-2 py-1 text-xs rounded-full bg-yellow-100 text-yellow-800">
+          Unpublished changes
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default LessonStatusBadge;
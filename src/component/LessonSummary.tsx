@@ -0,0 +1,133 @@
+import type { SessionSummary } from "../lib/lessonSession";
+
+interface LessonSummaryProps {
+  title: string;
+  summary: SessionSummary;
+  onRestart: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+const percent = (part: number, whole: number) =>
+  whole === 0 ? 100 : Math.round((part / whole) * 100);
+
+// ===============================================
+// END-OF-LESSON SUMMARY
+// ===============================================
+
+const LessonSummary = ({ title, summary, onRestart }: LessonSummaryProps) => {
+  const { score, maxScore, accuracyByType, timeSpentMs, mistakes } = summary;
+  const scorePercent = percent(score, maxScore);
+  const overallAccuracy = percent(
+    accuracyByType.reduce((sum, entry) => sum + entry.correct, 0),
+    accuracyByType.reduce((sum, entry) => sum + entry.attempts, 0)
+  );
+  const heading =
+    scorePercent === 100
+      ? "🎉 Perfect!"
+      : scorePercent >= 70
+        ? "🎉 Well done!"
+        : "💪 Keep practicing!";
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4 bg-gray-100">
+      <div className="w-full max-w-2xl bg-white p-8 md:p-10 rounded-xl shadow-2xl">
+        <h1 className="text-4xl font-extrabold text-green-600 mb-2 text-center">
+          {heading}
+        </h1>
+        <p className="text-xl text-gray-700 text-center mb-8">
+          You have completed <strong>{title}</strong>.
+        </p>
+
+        <div className="grid grid-cols-3 gap-4 mb-8 text-center">
+          <div className="p-4 bg-indigo-50 rounded-lg">
+            <p className="text-3xl font-bold text-indigo-700">
+              {score}/{maxScore}
+            </p>
+            <p className="text-sm text-gray-600">First-try score</p>
+          </div>
+          <div className="p-4 bg-indigo-50 rounded-lg">
+            <p className="text-3xl font-bold text-indigo-700">
+              {overallAccuracy}%
+            </p>
+            <p className="text-sm text-gray-600">Accuracy</p>
+          </div>
+          <div className="p-4 bg-indigo-50 rounded-lg">
+            <p className="text-3xl font-bold text-indigo-700">
+              {formatDuration(timeSpentMs)}
+            </p>
+            <p className="text-sm text-gray-600">Time spent</p>
+          </div>
+        </div>
+
+        {accuracyByType.length > 0 && (
+          <section className="mb-8">
+            <h2 className="text-lg font-bold text-gray-800 mb-3">
+              By activity type
+            </h2>
+            <div className="space-y-2">
+              {accuracyByType.map((entry) => (
+                <div key={entry.type} className="flex items-center space-x-3">
+                  <span className="w-36 text-sm text-gray-700 capitalize">
+                    {entry.type.replace(/-/g, " ")}
+                  </span>
+                  <div className="flex-grow bg-gray-200 rounded-full h-2.5">
+                    <div
+                      className="bg-green-500 h-2.5 rounded-full"
+                      style={{
+                        width: `${percent(entry.correct, entry.attempts)}%`,
+                      }}
+                    ></div>
+                  </div>
+                  <span className="w-24 text-right text-sm text-gray-600">
+                    {entry.correct}/{entry.attempts} tries
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {mistakes.length > 0 && (
+          <section className="mb-8">
+            <h2 className="text-lg font-bold text-gray-800 mb-3">
+              Review your mistakes
+            </h2>
+            <ul className="space-y-3">
+              {mistakes.map((mistake, index) => (
+                <li
+                  key={index}
+                  className="p-3 border border-red-200 bg-red-50 rounded-lg text-sm"
+                >
+                  <p className="font-semibold text-gray-800 mb-1">
+                    {mistake.prompt}
+                  </p>
+                  <p className="text-red-700">
+                    Your answer: {mistake.answer || "—"}
+                  </p>
+                  <p className="text-green-700">Correct: {mistake.expected}</p>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <div className="text-center">
+          <button
+            onClick={onRestart}
+            className="bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors"
+          >
+            Practice Again
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LessonSummary;
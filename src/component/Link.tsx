@@ -0,0 +1,27 @@
+import type { AnchorHTMLAttributes, MouseEvent } from "react";
+import { navigate } from "../lib/router";
+
+type LinkProps = AnchorHTMLAttributes<HTMLAnchorElement> & { href: string };
+
+// Anchor that navigates in-app, leaving modified clicks (new tab etc.) to the browser
+const Link = ({ href, onClick, ...rest }: LinkProps) => {
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (
+      e.defaultPrevented ||
+      e.button !== 0 ||
+      e.metaKey ||
+      e.ctrlKey ||
+      e.shiftKey ||
+      e.altKey
+    ) {
+      return;
+    }
+    e.preventDefault();
+    navigate(href);
+  };
+
+  return <a href={href} onClick={handleClick} {...rest} />;
+};
+
+export default Link;
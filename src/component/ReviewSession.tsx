@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import AudioPlayer from "./AudioPlayer";
+import Link from "./Link";
+import { playClip, stopPlayback } from "../lib/audioPlayback";
+import { loadAllLearnerLessons } from "../lib/learnerLessons";
+import {
+  DAILY_REVIEW_LIMIT,
+  dueCards,
+  loadDeck,
+  phrasesByKey,
+  saveCards,
+  scheduleCard,
+  withCurrentPhrase,
+} from "../lib/reviewDeck";
+import type {
+  CardDirection,
+  ReviewCard,
+  ReviewQuality,
+} from "../lib/reviewDeck";
+import { pathFor } from "../lib/router";
+
+const DIRECTION_PROMPTS: Record<CardDirection, string> = {
+  "darija-english": "What does this mean?",
+  "english-darija": "How do you say this in Darija?",
+  "audio-meaning": "What did you hear?",
+};
+
+const GRADES: { quality: ReviewQuality; label: string; className: string }[] = [
+  { quality: 1, label: "Again", className: "bg-red-600 hover:bg-red-700" },
+  { quality: 3, label: "Hard", className: "bg-yellow-600 hover:bg-yellow-700" },
+  { quality: 4, label: "Good", className: "bg-green-600 hover:bg-green-700" },
+  { quality: 5, label: "Easy", className: "bg-indigo-600 hover:bg-indigo-700" },
+];
+
+// Today's due cards, with phrases refreshed from the lessons
+const loadDueCards = async (): Promise<ReviewCard[]> => {
+  const phrases = phrasesByKey(await loadAllLearnerLessons());
+  return dueCards(loadDeck().map((card) => withCurrentPhrase(card, phrases)))
+    .filter(
+      (card) => card.direction !== "audio-meaning" || !!card.phrase.audioUrl
+    )
+    .slice(0, DAILY_REVIEW_LIMIT);
+};
+
+// ===============================================
+// DAILY REVIEW SESSION
+// ===============================================
+
+const ReviewSession = () => {
+  const [cards, setCards] = useState<ReviewCard[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDueCards()
+      .then((due) => {
+        if (!cancelled) setCards(due);
+      })
+      .catch((error) => {
+        console.error("Loading the review cards failed:", error);
+        if (!cancelled) setLoadError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const card = cards?.[position];
+
+  // Listening cards start by playing the phrase
+  const listenUrl =
+    card?.direction === "audio-meaning" ? card.phrase.audioUrl : null;
+  useEffect(() => {
+    if (listenUrl) playClip(listenUrl);
+  }, [listenUrl, position]);
+
+  useEffect(() => stopPlayback, []);
+
+  if (loadError) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh] p-4 text-center">
+        <div className="text-6xl mb-4">🗂️</div>
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">
+          Your review cards could not be loaded
+        </h1>
+        <p className="text-gray-600 mb-4">
+          Please reload the page to try again.
+        </p>
+        <Link
+          href={pathFor({ name: "learner-lessons" })}
+          className="text-indigo-600 hover:text-indigo-800 font-semibold"
+        >
+          ← Back to My Lessons
+        </Link>
+      </div>
+    );
+  }
+  if (!cards) return null;
+
+  const handleGrade = (quality: ReviewQuality) => {
+    if (!card) return;
+    saveCards([scheduleCard(card, quality)]);
+    setPosition(position + 1);
+    setIsRevealed(false);
+  };
+
+  if (!card) {
+    const [nextDueAt] = loadDeck()
+      .map((deckCard) => deckCard.dueAt)
+      .sort();
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh] p-4 text-center">
+        <div className="text-6xl mb-4">🗂️</div>
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">
+          {cards.length > 0
+            ? `Review complete: ${cards.length} cards`
+            : "No cards due"}
+        </h1>
+        <p className="text-gray-600 mb-4">
+          {nextDueAt
+            ? `Next review: ${new Date(nextDueAt).toLocaleDateString()}`
+            : "Finish a lesson to add its phrases to your review deck."}
+        </p>
+        <Link
+          href={pathFor({ name: "learner-lessons" })}
+          className="text-indigo-600 hover:text-indigo-800 font-semibold"
+        >
+          ← Back to My Lessons
+        </Link>
+      </div>
+    );
+  }
+
+  const { phrase, direction } = card;
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8">
+      <div className="max-w-xl mx-auto px-4">
+        <div className="flex justify-between items-center mb-4 text-sm text-gray-600">
+          <span className="font-semibold">Daily Review</span>
+          <span>
+            Card {position + 1}/{cards.length}
+          </span>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-2xl p-8 text-center">
+          <p className="text-sm text-gray-500 mb-4">
+            {DIRECTION_PROMPTS[direction]}
+          </p>
+
+          <div className="min-h-[6rem] flex flex-col items-center justify-center">
+            {direction === "darija-english" && (
+              <p className="text-3xl font-bold text-gray-800">
+                {phrase.text}
+                <AudioPlayer src={phrase.audioUrl} label={phrase.text} />
+              </p>
+            )}
+            {direction === "english-darija" && (
+              <p className="text-3xl font-bold text-gray-800">
+                {phrase.translation}
+              </p>
+            )}
+            {direction === "audio-meaning" && (
+              <div className="text-3xl">
+                <AudioPlayer src={phrase.audioUrl} label="phrase" showSpeeds />
+              </div>
+            )}
+          </div>
+
+          {isRevealed ? (
+            <div className="mt-6 pt-6 border-t">
+              {direction !== "darija-english" && (
+                <p className="text-2xl font-semibold text-indigo-700">
+                  {phrase.text}
+                  {direction === "english-darija" && (
+                    <AudioPlayer src={phrase.audioUrl} label={phrase.text} />
+                  )}
+                </p>
+              )}
+              {direction !== "english-darija" && (
+                <p className="text-xl text-gray-700 mt-1">
+                  {phrase.translation}
+                </p>
+              )}
+              <p className="text-sm text-gray-500 mt-6 mb-2">
+                How well did you remember it?
+              </p>
+              <div className="grid grid-cols-4 gap-2">
+                {GRADES.map((grade) => (
+                  <button
+                    key={grade.quality}
+                    onClick={() => handleGrade(grade.quality)}
+                    className={`py-2 rounded-lg font-bold text-white ${grade.className}`}
+                  >
+                    {grade.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsRevealed(true)}
+              className="mt-6 bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors"
+            >
+              Show Answer
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSession;
@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import AudioPlayer from "./AudioPlayer";
+import Waveform from "./Waveform";
+import { decodeAudio, waveformPeaks } from "../lib/audioProcessing";
+import {
+  isRecordingSupported,
+  useAudioRecorder,
+} from "../lib/useAudioRecorder";
+
+interface SpeakPracticeProps {
+  /** The model pronunciation. */
+  modelUrl: string | null;
+  /** Called with the learner's latest take, or null once it is discarded. */
+  onTake: (take: Blob | null) => void;
+  disabled?: boolean;
+}
+
+interface Take {
+  blob: Blob;
+  url: string;
+  peaks: number[];
+}
+
+const WAVEFORM_BARS = 48;
+
+const peaksOf = async (blob: Blob) =>
+  waveformPeaks((await decodeAudio(blob)).samples, WAVEFORM_BARS);
+
+// ===============================================
+// MODEL VS LEARNER, SIDE BY SIDE
+// ===============================================
+
+const SpeakPractice = ({
+  modelUrl,
+  onTake,
+  disabled = false,
+}: SpeakPracticeProps) => {
+  const recorder = useAudioRecorder();
+  const [model, setModel] = useState<{ url: string; peaks: number[] } | null>(
+    null
+  );
+  const [take, setTake] = useState<Take | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Draw the model clip's waveform
+  useEffect(() => {
+    if (!modelUrl) return;
+    let cancelled = false;
+    fetch(modelUrl)
+      .then((response) => response.blob())
+      .then(peaksOf)
+      .then((peaks) => {
+        if (!cancelled) setModel({ url: modelUrl, peaks });
+      })
+      .catch(() => {
+        // The model can still be played; it just has no waveform
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [modelUrl]);
+
+  // Release the take's URL once it is replaced or the activity ends
+  useEffect(() => {
+    if (!take) return;
+    return () => URL.revokeObjectURL(take.url);
+  }, [take]);
+
+  const startRecording = () => {
+    setError(null);
+    recorder.start();
+  };
+
+  const stopRecording = async () => {
+    try {
+      const blob = await recorder.stop();
+      const peaks = await peaksOf(blob).catch(() => []);
+      setTake({ blob, url: URL.createObjectURL(blob), peaks });
+      onTake(blob);
+    } catch (err) {
+      console.error("Recording failed:", err);
+      setError("The recording could not be saved. Try again.");
+    }
+  };
+
+  const discardTake = () => {
+    setTake(null);
+    onTake(null);
+  };
+
+  const modelPeaks = model?.url === modelUrl ? model.peaks : null;
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="p-4 border border-indigo-200 rounded-lg bg-indigo-50">
+        <div className="flex items-center justify-between mb-2 text-sm font-semibold text-indigo-800">
+          Model
+          <AudioPlayer src={modelUrl} label="model pronunciation" showSpeeds />
+        </div>
+        {modelPeaks ? (
+          <Waveform peaks={modelPeaks} />
+        ) : (
+          <div className="h-12 flex items-center justify-center text-xs text-gray-500">
+            {modelUrl ? "Loading waveform…" : "No model audio"}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 border border-green-200 rounded-lg bg-green-50">
+        <div className="flex items-center justify-between mb-2 text-sm font-semibold text-green-800">
+          You
+          {take && <AudioPlayer src={take.url} label="your recording" />}
+        </div>
+        {take ? (
+          <Waveform peaks={take.peaks} barClassName="fill-green-500" />
+        ) : (
+          <div className="h-12 flex items-center justify-center text-xs text-gray-500">
+            {isRecordingSupported()
+              ? "Record yourself saying the phrase"
+              : "Recording isn't available in this browser; say it aloud"}
+          </div>
+        )}
+
+        {isRecordingSupported() && !disabled && (
+          <div className="mt-2 flex justify-center space-x-2">
+            {recorder.status === "recording" ? (
+              <button
+                type="button"
+                onClick={stopRecording}
+                className="text-sm bg-red-600 text-white px-3 py-1 rounded hover:bg-red-700 flex items-center"
+              >
+                <span className="w-2 h-2 bg-white rounded-full mr-2 animate-pulse"></span>
+                Stop
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={startRecording}
+                disabled={recorder.status === "requesting"}
+                className="text-sm border border-red-500 text-red-600 px-3 py-1 rounded hover:bg-red-50 disabled:opacity-50"
+              >
+                {recorder.status === "requesting"
+                  ? "Waiting for microphone…"
+                  : take
+                    ? "● Record again"
+                    : "● Record"}
+              </button>
+            )}
+            {take && recorder.status !== "recording" && (
+              <button
+                type="button"
+                onClick={discardTake}
+                className="text-sm px-3 py-1 text-red-600 hover:text-red-800"
+              >
+                Discard
+              </button>
+            )}
+          </div>
+        )}
+
+        {(recorder.error || error) && (
+          <p className="text-xs text-red-600 mt-1 text-center">
+            {recorder.error || error}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpeakPractice;
@@ -0,0 +1,149 @@
+import { useEffect, useReducer, useState } from "react";
+import AudioPlayer from "./AudioPlayer";
+import { resolveAssetUrl } from "../lib/assetStore";
+import {
+  SELF_RATINGS,
+  loadAllProgress,
+  scoreRecording,
+} from "../lib/progressStore";
+import type { LessonDraft } from "../lib/lessonSchema";
+import type { SpeakingRecording } from "../lib/progressStore";
+
+interface ReviewEntry {
+  lessonId: string;
+  lessonTitle: string;
+  phrase: string;
+  learnerId: string;
+  recording: SpeakingRecording;
+}
+
+const TEACHER_SCORES = [1, 2, 3, 4, 5];
+
+/** Every kept speaking attempt, newest first, with its lesson and phrase. */
+const loadReviewEntries = (lessons: LessonDraft[]): ReviewEntry[] =>
+  loadAllProgress()
+    .flatMap((progress) => {
+      const lesson = lessons.find(
+        (entry) => String(entry.id) === progress.lessonId
+      );
+      return (progress.recordings ?? []).map((recording) => ({
+        lessonId: progress.lessonId,
+        lessonTitle: lesson?.title ?? "Deleted lesson",
+        phrase:
+          lesson?.activities.find(
+            (activity) => activity.id === recording.activityId
+          )?.items[0]?.text ?? "",
+        learnerId: progress.learnerId,
+        recording,
+      }));
+    })
+    .sort((a, b) =>
+      b.recording.recordedAt.localeCompare(a.recording.recordedAt)
+    );
+
+/** Plays one take, once its URL has been looked up in the asset store. */
+const RecordingPlayer = ({ assetId }: { assetId: string }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    resolveAssetUrl(assetId)
+      .then((resolved) => {
+        if (!cancelled) setUrl(resolved);
+      })
+      .catch((error) => {
+        console.error("Loading the recording failed:", error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [assetId]);
+
+  if (failed) {
+    return <span className="text-xs text-red-600">Recording unavailable</span>;
+  }
+  return <AudioPlayer src={url} label="learner recording" />;
+};
+
+// ===============================================
+// SPEAKING RECORDINGS TO SCORE
+// ===============================================
+
+const SpeakingReviews = ({ lessons }: { lessons: LessonDraft[] }) => {
+  // Scores are written straight to storage; re-read it after each one
+  const [, refreshEntries] = useReducer((count: number) => count + 1, 0);
+  const entries = loadReviewEntries(lessons);
+
+  if (entries.length === 0) return null;
+
+  const giveScore = (entry: ReviewEntry, score: number) => {
+    scoreRecording(
+      entry.lessonId,
+      entry.learnerId,
+      entry.recording.assetId,
+      score
+    );
+    refreshEntries();
+  };
+
+  const unscored = entries.filter(
+    (entry) => entry.recording.teacherScore === null
+  ).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <h2 className="text-2xl font-bold text-gray-800 mb-1">
+        Speaking Recordings
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {unscored} of {entries.length} still to score, from 1 (hard to
+        understand) to 5 (native-like).
+      </p>
+
+      <div className="grid gap-3">
+        {entries.map((entry) => {
+          const selfRating = SELF_RATINGS.find(
+            (rating) => rating.value === entry.recording.selfRating
+          );
+          return (
+            <div
+              key={entry.recording.assetId + entry.learnerId}
+              className="border border-gray-200 rounded-lg p-4 flex flex-wrap items-center justify-between gap-3"
+            >
+              <div>
+                <p className="font-semibold text-gray-800">"{entry.phrase}"</p>
+                <p className="text-sm text-gray-600">
+                  {entry.lessonTitle} • {entry.learnerId} •{" "}
+                  {new Date(entry.recording.recordedAt).toLocaleDateString()}
+                  {selfRating && <> • Self-rated: {selfRating.label}</>}
+                </p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <RecordingPlayer assetId={entry.recording.assetId} />
+                <div className="flex space-x-1">
+                  {TEACHER_SCORES.map((score) => (
+                    <button
+                      key={score}
+                      onClick={() => giveScore(entry, score)}
+                      className={`w-8 h-8 rounded-full text-sm font-semibold border transition-colors ${
+                        entry.recording.teacherScore === score
+                          ? "bg-indigo-600 text-white border-indigo-600"
+                          : "border-gray-300 text-gray-700 hover:bg-indigo-50"
+                      }`}
+                    >
+                      {score}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SpeakingReviews;
@@ -0,0 +1,106 @@
+import {
+  acceptServerVersion,
+  keepLocalVersion,
+  syncLessons,
+} from "../lib/lessonSync";
+import type { SyncState, SyncStatus } from "../lib/lessonSync";
+
+interface SyncStatusPanelProps {
+  status: SyncStatus;
+  /** Called once a conflict is resolved and local lessons have changed. */
+  onResolved: () => void;
+}
+
+const STATE_LABELS: Record<SyncState, { label: string; className: string }> = {
+  idle: { label: "Synced with your team", className: "text-green-700" },
+  syncing: { label: "Syncing…", className: "text-indigo-700" },
+  offline: {
+    label: "Offline: changes will upload when you reconnect",
+    className: "text-yellow-700",
+  },
+  error: { label: "Sync failed", className: "text-red-700" },
+};
+
+// ===============================================
+// TEAM SYNC STATUS AND CONFLICTS
+// ===============================================
+
+const SyncStatusPanel = ({ status, onResolved }: SyncStatusPanelProps) => {
+  const { label, className } = STATE_LABELS[status.state];
+
+  const resolve = async (resolution: Promise<void>) => {
+    try {
+      await resolution;
+      onResolved();
+    } catch (error) {
+      console.error("Resolving the conflict failed:", error);
+      alert("The conflict could not be resolved. Please try again.");
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 border border-gray-200 rounded-lg bg-gray-50 text-sm">
+      <div className="flex items-center justify-between">
+        <p className={`font-semibold ${className}`}>
+          {label}
+          {status.error && (
+            <span className="font-normal"> ({status.error})</span>
+          )}
+        </p>
+        <div className="flex items-center space-x-3 text-gray-500">
+          {status.pending > 0 && (
+            <span>{status.pending} lesson(s) waiting to upload</span>
+          )}
+          {status.lastSyncedAt && (
+            <span>
+              Last synced {new Date(status.lastSyncedAt).toLocaleTimeString()}
+            </span>
+          )}
+          <button
+            onClick={() => void syncLessons()}
+            disabled={status.state === "syncing"}
+            className="text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+          >
+            Sync now
+          </button>
+        </div>
+      </div>
+
+      {status.conflicts.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {status.conflicts.map((conflict) => (
+            <div
+              key={conflict.lessonId}
+              className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between gap-3"
+            >
+              <p className="text-yellow-800">
+                <strong>"{conflict.title}"</strong>{" "}
+                {conflict.server
+                  ? `was changed by a colleague (${new Date(conflict.server.updatedAt).toLocaleString()}) while you were editing it.`
+                  : "was deleted by a colleague while you were editing it."}
+              </p>
+              <div className="flex space-x-2 whitespace-nowrap">
+                <button
+                  onClick={() => resolve(keepLocalVersion(conflict.lessonId))}
+                  className="px-3 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700"
+                >
+                  Keep mine
+                </button>
+                <button
+                  onClick={() =>
+                    resolve(acceptServerVersion(conflict.lessonId))
+                  }
+                  className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-white"
+                >
+                  {conflict.server ? "Use theirs" : "Delete mine"}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusPanel;
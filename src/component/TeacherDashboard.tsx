@@ -1,10 +1,70 @@
-import React, { useState, useReducer, useEffect } from "react";
+import { useState, useReducer, useEffect, useRef } from "react";
+import type { ChangeEvent, DragEvent, KeyboardEvent } from "react";
+import AudioPlayer from "./AudioPlayer";
+import AudioRecorder from "./AudioRecorder";
+import HistoryPanel from "./HistoryPanel";
+import LessonImport from "./LessonImport";
+import LessonLintPanel from "./LessonLintPanel";
+import LessonPreview from "./LessonPreview";
+import LessonRevisions from "./LessonRevisions";
+import LessonStatusBadge from "./LessonStatusBadge";
+import SpeakingReviews from "./SpeakingReviews";
+import SyncStatusPanel from "./SyncStatusPanel";
+import { resolveAssetUrl, saveAsset } from "../lib/assetStore";
+import { cleanUpLessonAssets, resolveLessonAssets } from "../lib/lessonAssets";
+import { LESSON_SCHEMA_VERSION } from "../lib/lessonMigrations";
+import { lintErrors, lintLesson } from "../lib/lessonLinter";
+import type { LintIssue } from "../lib/lessonLinter";
+import { downloadLessonPackage } from "../lib/lessonPackage";
+import {
+  hasUnpublishedChanges,
+  latestVersion,
+  publishLesson,
+} from "../lib/lessonPublishing";
+import { saveRevision } from "../lib/lessonRevisions";
+import {
+  deleteLesson,
+  findSavedLesson,
+  getLesson,
+  listLessons,
+  putLesson,
+  searchLessons,
+  subscribeLessonChanges,
+} from "../lib/lessonRepository";
+import type { LessonListing } from "../lib/lessonRepository";
+import { useSyncStatus } from "../lib/lessonSync";
+import {
+  DEFAULT_LESSON_SETTINGS,
+  isImageUrl,
+  resolveAudioUrl,
+  validateActivity,
+} from "../lib/lessonSchema";
+import { pinnedVersions } from "../lib/progressStore";
+import { navigate, pathFor } from "../lib/router";
+import { DARIJA_SCRIPTS, arabiziToArabic } from "../lib/transliteration";
+import type { DarijaScript } from "../lib/transliteration";
+import { useLessonAutosave } from "../lib/useLessonAutosave";
+import type { AutosaveStatus } from "../lib/useLessonAutosave";
+import { useUndoableReducer } from "../lib/useUndoableReducer";
+import type { DescribeStep } from "../lib/useUndoableReducer";
+import type {
+  ActivityDraft,
+  ActivityType,
+  AssetFile,
+  Difficulty,
+  LessonDraft,
+  LessonSettings,
+  LessonStatus,
+  MediaElement,
+  PairDraft,
+  TranslateDirection,
+} from "../lib/lessonSchema";
 
 // ===============================================
 // DATA STRUCTURES AND INITIAL STATES
 // ===============================================
 
-const initialMediaElement = {
+const initialMediaElement: MediaElement = {
   id: Date.now(),
   text: "",
   translation: "",
@@ -12,7 +72,7 @@ const initialMediaElement = {
   audioUrl: "",
 };
 
-const initialActivityData = {
+const initialActivityData: ActivityDraft = {
   id: Date.now(),
   type: "multiple-choice",
   title: "",
@@ -25,13 +85,18 @@ const initialActivityData = {
   ],
   items: [{ ...initialMediaElement }],
   pairs: [{ ...initialMediaElement, image: "" }],
-  wordBlocks: [],
+  wordPool: [],
+  translateDirection: "to-darija",
+  acceptedAnswers: [""],
   difficulty: "beginner", // beginner, intermediate, advanced
   timeEstimate: 5, // minutes
 };
 
-const initialLessonState = {
+export type DashboardView = "list" | "setup" | "builder" | "preview";
+
+const initialLessonState: LessonDraft = {
   id: Date.now(),
+  schemaVersion: LESSON_SCHEMA_VERSION,
   title: "",
   description: "",
   level: "beginner",
@@ -39,9 +104,9 @@ const initialLessonState = {
   introParts: [""],
   activities: [],
   tags: [],
-  currentView: "list",
-  isSaved: false,
-  isPublished: false,
+  settings: DEFAULT_LESSON_SETTINGS,
+  status: "draft",
+  publishedVersions: [],
   createdAt: new Date().toISOString(),
   updatedAt: new Date().toISOString(),
 };
@@ -50,7 +115,24 @@ const initialLessonState = {
 // REDUCER FOR STATE MANAGEMENT
 // ===============================================
 
-const lessonReducer = (state, action) => {
+type LessonAction =
+  | { type: "SET_FIELD"; field: keyof LessonDraft; value: unknown }
+  | { type: "ADD_ACTIVITY"; activity: ActivityDraft }
+  | { type: "UPDATE_ACTIVITY"; id: number; activity: ActivityDraft }
+  | { type: "DELETE_ACTIVITY"; id: number }
+  | { type: "DELETE_ACTIVITIES"; ids: number[] }
+  | { type: "DUPLICATE_ACTIVITY"; id: number }
+  | { type: "REORDER_ACTIVITIES"; activities: ActivityDraft[] }
+  | { type: "RESTORE_REVISION"; lesson: LessonDraft }
+  | { type: "RESTORE_ACTIVITY"; activity: ActivityDraft; index: number }
+  | { type: "PUBLISH_LESSON"; publishedAt: string; pinnedVersions: number[] }
+  | { type: "RESET_LESSON"; id: number }
+  | { type: "LOAD_LESSON"; lesson: LessonDraft };
+
+const lessonReducer = (
+  state: LessonDraft,
+  action: LessonAction
+): LessonDraft => {
   switch (action.type) {
     case "SET_FIELD":
       return {
@@ -64,7 +146,7 @@ const lessonReducer = (state, action) => {
         ...state,
         activities: [
           ...state.activities,
-          { ...action.activity, id: Date.now() },
+          { ...action.activity, id: newActivityId(state.activities) },
         ],
         updatedAt: new Date().toISOString(),
       };
@@ -85,6 +167,34 @@ const lessonReducer = (state, action) => {
         updatedAt: new Date().toISOString(),
       };
 
+    case "DELETE_ACTIVITIES":
+      return {
+        ...state,
+        activities: state.activities.filter(
+          (act) => !action.ids.includes(act.id)
+        ),
+        updatedAt: new Date().toISOString(),
+      };
+
+    // The copy goes right after the original
+    case "DUPLICATE_ACTIVITY":
+      return {
+        ...state,
+        activities: state.activities.flatMap((act) =>
+          act.id === action.id
+            ? [
+                act,
+                {
+                  ...act,
+                  id: newActivityId(state.activities),
+                  title: `${act.title} (copy)`,
+                },
+              ]
+            : [act]
+        ),
+        updatedAt: new Date().toISOString(),
+      };
+
     case "REORDER_ACTIVITIES":
       return {
         ...state,
@@ -92,22 +202,49 @@ const lessonReducer = (state, action) => {
         updatedAt: new Date().toISOString(),
       };
 
-    case "SET_VIEW":
-      return { ...state, currentView: action.view };
+    // The revision's content under this lesson's identity and status
+    case "RESTORE_REVISION":
+      return {
+        ...action.lesson,
+        id: state.id,
+        status: state.status,
+        publishedVersions: state.publishedVersions,
+        createdAt: state.createdAt,
+        updatedAt: new Date().toISOString(),
+      };
+
+    case "RESTORE_ACTIVITY": {
+      const { activity, index } = action;
+      const exists = state.activities.some((act) => act.id === activity.id);
+      return {
+        ...state,
+        activities: exists
+          ? state.activities.map((act) =>
+              act.id === activity.id ? activity : act
+            )
+          : moveItem(
+              [...state.activities, activity],
+              state.activities.length,
+              index
+            ),
+        updatedAt: new Date().toISOString(),
+      };
+    }
+
+    case "PUBLISH_LESSON":
+      return publishLesson(state, action.pinnedVersions, action.publishedAt);
 
     case "RESET_LESSON":
       return {
         ...initialLessonState,
-        id: Date.now(),
-        currentView: "setup",
+        id: action.id,
+        createdAt: new Date().toISOString(),
       };
 
+    // The lesson comes from lessonStorage, already migrated to the current
+    // schema. Its stored updatedAt is kept: opening a lesson is not an edit
     case "LOAD_LESSON":
-      return {
-        ...action.lesson,
-        currentView: "setup",
-        updatedAt: new Date().toISOString(),
-      };
+      return action.lesson;
 
     default:
       return state;
@@ -115,60 +252,153 @@ const lessonReducer = (state, action) => {
 };
 
 // ===============================================
-// UTILITY FUNCTIONS
+// UNDO HISTORY
 // ===============================================
 
-const generateId = () => Date.now() + Math.random();
+const FIELD_LABELS: Partial<Record<keyof LessonDraft, string>> = {
+  introParts: "introduction",
+};
 
-const validateActivity = (activity) => {
-  const errors = [];
+const STATUS_CHANGE_LABELS: Record<LessonStatus, string> = {
+  draft: "Unpublish lesson",
+  published: "Republish lesson",
+  archived: "Archive lesson",
+};
 
-  if (!activity.title?.trim()) {
-    errors.push("Activity title is required");
-  }
+/** History panel names for each edit; typing into one field is one step. */
+const describeLessonAction: DescribeStep<LessonDraft, LessonAction> = (
+  action,
+  lesson
+) => {
+  const activityTitle = (id: number) =>
+    `"${lesson.activities.find((act) => act.id === id)?.title || "activity"}"`;
 
-  if (!activity.question?.text?.trim()) {
-    errors.push("Question text is required");
+  switch (action.type) {
+    case "SET_FIELD":
+      if (action.field === "status") {
+        return { label: STATUS_CHANGE_LABELS[action.value as LessonStatus] };
+      }
+      return {
+        label: `Edit ${FIELD_LABELS[action.field] ?? action.field}`,
+        group: `field:${action.field}`,
+      };
+    case "ADD_ACTIVITY":
+      return { label: `Add "${action.activity.title || "activity"}"` };
+    case "UPDATE_ACTIVITY":
+      return { label: `Edit ${activityTitle(action.id)}` };
+    case "DELETE_ACTIVITY":
+      return { label: `Delete ${activityTitle(action.id)}` };
+    case "DELETE_ACTIVITIES":
+      return { label: `Delete ${action.ids.length} activities` };
+    case "DUPLICATE_ACTIVITY":
+      return { label: `Duplicate ${activityTitle(action.id)}` };
+    case "REORDER_ACTIVITIES":
+      return { label: "Reorder activities" };
+    case "RESTORE_REVISION":
+      return { label: "Restore revision" };
+    case "RESTORE_ACTIVITY":
+      return { label: `Restore "${action.activity.title || "activity"}"` };
+    // Opening a lesson starts its own history. So does publishing: learners
+    // may start the new version at once, so it is never undone.
+    case "PUBLISH_LESSON":
+    case "RESET_LESSON":
+    case "LOAD_LESSON":
+      return null;
   }
+};
 
-  switch (activity.type) {
-    case "multiple-choice":
-      const validOptions = activity.options.filter((opt) => opt.text.trim());
-      if (validOptions.length < 2) {
-        errors.push("At least 2 options are required");
-      }
-      if (!activity.options.some((opt) => opt.isCorrect)) {
-        errors.push("One option must be marked as correct");
-      }
-      break;
+/** An undone or redone lesson is a new version as far as saving and sync
+ * are concerned. */
+const restoreLesson = (lesson: LessonDraft, at: number) => ({
+  ...lesson,
+  updatedAt: new Date(at).toISOString(),
+});
 
-    case "ordering":
-    case "dialogue":
-      if (activity.items.length < 2) {
-        errors.push("At least 2 items are required");
-      }
-      break;
+const UNDO_OPTIONS = { restore: restoreLesson };
 
-    case "match-image":
-      if (activity.pairs.length < 2) {
-        errors.push("At least 2 pairs are required");
-      }
-      break;
+// ===============================================
+// UTILITY FUNCTIONS
+// ===============================================
 
-    case "fill-in-blanks":
-      if (!activity.question.text.includes("{")) {
-        errors.push("Sentence must contain blanks marked with {word}");
-      }
-      break;
-  }
+const generateId = () => Date.now() + Math.random();
+
+/** An integer id for a new activity: the current time, moved past any id
+ * already in the lesson so quick additions don't collide. */
+const newActivityId = (activities: ActivityDraft[]) =>
+  Math.max(Date.now(), ...activities.map((act) => Math.floor(act.id) + 1));
+
+const UNPUBLISH_WARNING =
+  "Learners will no longer see this lesson, including anyone part-way through it. Continue?";
 
-  return errors;
+/** `items` with the entry at `from` moved to `to`. */
+const moveItem = <T,>(items: T[], from: number, to: number) => {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
 };
 
 // ===============================================
 // REUSABLE COMPONENTS
 // ===============================================
 
+type MediaField = "question" | "options" | "items" | "pairs";
+
+interface MediaElementInputProps {
+  label: string;
+  value: MediaElement;
+  onChangeText: (key: "text" | "translation", value: string) => void;
+  /** Receives an uploaded file or an accepted recording. */
+  onChangeAudio: (file: File | undefined) => void;
+  onDelete?: () => void;
+  showDelete?: boolean;
+  isDarija?: boolean;
+  isQuestion?: boolean;
+}
+
+const AUTOSAVE_LABELS: Record<AutosaveStatus, string> = {
+  saved: "All changes saved",
+  pending: "Unsaved changes…",
+  saving: "Saving…",
+  error: "Changes not saved",
+};
+
+/** Autosave state under a view's header, with the reason when saving
+ * failed (a full disk, usually). */
+const AutosaveNotice = ({
+  status,
+  error,
+}: {
+  status: AutosaveStatus;
+  error: string | null;
+}) => (
+  <div className="-mt-4 mb-6">
+    <p
+      className={`text-xs ${status === "error" ? "text-red-600" : "text-gray-400"}`}
+    >
+      {AUTOSAVE_LABELS[status]}
+    </p>
+    {error && (
+      <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+        {error}
+      </div>
+    )}
+  </div>
+);
+
+/** Live Arabic-script rendering of the Arabizi typed above it. */
+const ArabicPreview = ({ text }: { text: string }) =>
+  text.trim() ? (
+    <p
+      dir="rtl"
+      lang="ar"
+      className="-mt-1 mb-2 text-right text-gray-600"
+      title="Arabic script preview"
+    >
+      {arabiziToArabic(text)}
+    </p>
+  ) : null;
+
 const MediaElementInput = ({
   label,
   value,
@@ -178,7 +408,7 @@ const MediaElementInput = ({
   showDelete = false,
   isDarija = true,
   isQuestion = false,
-}) => (
+}: MediaElementInputProps) => (
   <div className="border p-4 rounded-lg bg-white mt-3 shadow-sm">
     <div className="flex justify-between items-center mb-2">
       <label className="block text-sm font-semibold text-gray-700">
@@ -204,6 +434,7 @@ const MediaElementInput = ({
       }
       className="p-2 border border-gray-300 rounded w-full mb-2 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
     />
+    {isDarija && <ArabicPreview text={value.text} />}
 
     <input
       type="text"
@@ -212,6 +443,7 @@ const MediaElementInput = ({
       placeholder={isDarija ? "English translation" : "Darija equivalent"}
       className="p-2 border border-gray-300 rounded w-full mb-3 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
     />
+    {!isDarija && <ArabicPreview text={value.translation} />}
 
     <label className="block text-xs font-medium text-gray-600 mb-1">
       {isQuestion ? "Question Audio" : "Phrase Audio"} (Optional)
@@ -219,35 +451,165 @@ const MediaElementInput = ({
     <input
       type="file"
       accept="audio/*"
-      onChange={onChangeAudio}
+      onChange={(e) => onChangeAudio(e.target.files?.[0])}
       className="w-full text-sm p-2 border border-gray-300 rounded file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
     />
 
+    <AudioRecorder label={label} onRecorded={onChangeAudio} />
+
     {value.audioFile && (
       <p className="text-xs text-green-600 mt-2 flex items-center">
         <span className="w-2 h-2 bg-green-500 rounded-full mr-2"></span>
         File: {value.audioFile.name}
+        <AudioPlayer src={value.audioFile.url} label={value.audioFile.name} />
       </p>
     )}
   </div>
 );
 
-const ActivityPreview = ({ activity, index, onEdit, onDelete }) => {
-  const getActivityIcon = (type) => {
-    const icons = {
+interface ActivityPreviewProps {
+  activity: ActivityDraft;
+  index: number;
+  /** Number of activities in the lesson, to disable moves past the ends. */
+  count: number;
+  isSelected: boolean;
+  /** Other saved lessons the activity can be moved to. */
+  moveTargets: LessonDraft[];
+  onEdit: (activity: ActivityDraft) => void;
+  onDelete: (id: number) => void;
+  onDuplicate: (id: number) => void;
+  onToggleSelected: (id: number) => void;
+  /** Moves the activity at `from` to position `to` in this lesson. */
+  onMove: (from: number, to: number) => void;
+  onMoveToLesson: (activity: ActivityDraft, lessonId: number) => void;
+  onDragStart: (index: number) => void;
+  onDrop: (index: number) => void;
+}
+
+const ActivityPreview = ({
+  activity,
+  index,
+  count,
+  isSelected,
+  moveTargets,
+  onEdit,
+  onDelete,
+  onDuplicate,
+  onToggleSelected,
+  onMove,
+  onMoveToLesson,
+  onDragStart,
+  onDrop,
+}: ActivityPreviewProps) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  // Drag by the handle, but show the whole card under the pointer
+  const handleDragStart = (e: DragEvent<HTMLButtonElement>) => {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", String(activity.id));
+    if (cardRef.current) e.dataTransfer.setDragImage(cardRef.current, 16, 16);
+    onDragStart(index);
+  };
+
+  // The handle keeps focus as it moves, so arrows can be pressed repeatedly
+  const handleKeyDown = (e: KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === "ArrowUp" && index > 0) {
+      e.preventDefault();
+      onMove(index, index - 1);
+    } else if (e.key === "ArrowDown" && index < count - 1) {
+      e.preventDefault();
+      onMove(index, index + 1);
+    }
+  };
+
+  const getActivityIcon = (type: ActivityType) => {
+    const icons: Record<ActivityType, string> = {
       "multiple-choice": "🔘",
       "fill-in-blanks": "📝",
       ordering: "🔢",
       "match-image": "🖼️",
       dialogue: "💬",
+      translate: "✍️",
+      dictation: "🎧",
+      speak: "🗣️",
     };
     return icons[type] || "📋";
   };
 
+  // One line on what the learner does; typed-answer activities show the answer
+  const getActivitySummary = () => {
+    const [answer = ""] = activity.acceptedAnswers ?? [];
+    switch (activity.type) {
+      case "translate":
+        return `"${activity.question.text}" → "${answer}"`;
+      case "dictation":
+        return (
+          <>
+            {activity.question.text} Transcript: "{answer}"
+            <AudioPlayer
+              src={resolveAudioUrl(activity.question)}
+              label="dictation clip"
+            />
+          </>
+        );
+      case "speak":
+        return `Say: "${activity.items[0]?.text ?? ""}"`;
+      default:
+        return activity.question.text;
+    }
+  };
+
   return (
-    <div className="p-4 border border-gray-200 rounded-lg bg-white hover:shadow-md transition-shadow">
+    <div
+      ref={cardRef}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop(index);
+      }}
+      className={`p-4 border rounded-lg bg-white hover:shadow-md transition-shadow ${
+        isSelected
+          ? "border-indigo-400 ring-1 ring-indigo-300"
+          : "border-gray-200"
+      }`}
+    >
       <div className="flex justify-between items-start mb-2">
         <div className="flex items-center space-x-3">
+          <div className="flex flex-col items-center text-gray-400">
+            <button
+              onClick={() => onMove(index, index - 1)}
+              disabled={index === 0}
+              aria-label="Move up"
+              className="leading-none hover:text-gray-700 disabled:opacity-30"
+            >
+              ▲
+            </button>
+            <button
+              draggable
+              onDragStart={handleDragStart}
+              onKeyDown={handleKeyDown}
+              aria-label={`Reorder activity ${index + 1}: drag, or press the up and down arrow keys`}
+              title="Drag to reorder, or use the arrow keys"
+              className="cursor-grab px-1 text-lg leading-none hover:text-gray-700 focus:text-indigo-600"
+            >
+              ⠿
+            </button>
+            <button
+              onClick={() => onMove(index, index + 1)}
+              disabled={index === count - 1}
+              aria-label="Move down"
+              className="leading-none hover:text-gray-700 disabled:opacity-30"
+            >
+              ▼
+            </button>
+          </div>
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={() => onToggleSelected(activity.id)}
+            aria-label={`Select ${activity.title || `activity ${index + 1}`}`}
+            className="h-4 w-4 text-indigo-600 rounded"
+          />
           <span className="text-2xl">{getActivityIcon(activity.type)}</span>
           <div>
             <h4 className="font-semibold text-gray-800">
@@ -265,6 +627,29 @@ const ActivityPreview = ({ activity, index, onEdit, onDelete }) => {
           >
             Edit
           </button>
+          <button
+            onClick={() => onDuplicate(activity.id)}
+            className="text-gray-600 hover:text-gray-800 text-sm px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+          >
+            Duplicate
+          </button>
+          {moveTargets.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => onMoveToLesson(activity, Number(e.target.value))}
+              aria-label="Move to another lesson"
+              className="text-gray-600 text-sm px-2 py-1 border border-gray-300 rounded bg-white"
+            >
+              <option value="" disabled>
+                Move to…
+              </option>
+              {moveTargets.map((lesson) => (
+                <option key={lesson.id} value={lesson.id}>
+                  {lesson.title || "Untitled lesson"}
+                </option>
+              ))}
+            </select>
+          )}
           <button
             onClick={() => onDelete(activity.id)}
             className="text-red-600 hover:text-red-800 text-sm px-3 py-1 border border-red-600 rounded hover:bg-red-50 transition-colors"
@@ -275,7 +660,7 @@ const ActivityPreview = ({ activity, index, onEdit, onDelete }) => {
       </div>
 
       <p className="text-sm text-gray-700 mt-2 line-clamp-2">
-        {activity.question.text}
+        {getActivitySummary()}
       </p>
 
       <div className="flex justify-between items-center mt-3 text-xs text-gray-500">
@@ -290,99 +675,365 @@ const ActivityPreview = ({ activity, index, onEdit, onDelete }) => {
 // MAIN TEACHER DASHBOARD COMPONENT
 // ===============================================
 
-const TeacherDashboard = () => {
-  const [lessonState, dispatch] = useReducer(lessonReducer, initialLessonState);
+interface TeacherDashboardProps {
+  view: DashboardView;
+  /** Lesson being edited in the setup, builder and preview views. */
+  lessonId?: string;
+}
+
+const TeacherDashboard = ({ view, lessonId }: TeacherDashboardProps) => {
+  const [lessonState, dispatch, editHistory] = useUndoableReducer(
+    lessonReducer,
+    initialLessonState,
+    describeLessonAction,
+    UNDO_OPTIONS
+  );
   const [tempActivity, setTempActivity] = useState(initialActivityData);
   const [isEditingActivity, setIsEditingActivity] = useState(false);
-  const [validationErrors, setValidationErrors] = useState([]);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [isLintOpen, setIsLintOpen] = useState(false);
+  // Element to scroll to once the view showing it has rendered (click-to-fix)
+  const [focusTargetId, setFocusTargetId] = useState<string | null>(null);
+  // Activity list: checked activities for bulk actions, and the one being dragged
+  const [selectedActivityIds, setSelectedActivityIds] = useState<number[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const selectedActivities = lessonState.activities
+    .map((activity) => activity.id)
+    .filter((id) => selectedActivityIds.includes(id));
+  const isLessonLoaded =
+    lessonId !== undefined && String(lessonState.id) === lessonId;
+  const currentId = lessonState.id;
+
+  // Save edits once typing pauses; the list view waits for pending saves
+  const autosave = useLessonAutosave(
+    lessonState,
+    isLessonLoaded &&
+      (lessonState.activities.length > 0 || !!lessonState.title.trim())
+  );
+  const flushAutosave = autosave.flush;
+  const markAutosaved = autosave.markSaved;
+  const isAutosaved = autosave.isSaved;
 
-  // Load saved lessons from localStorage on component mount
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) while editing. Fields that are not
+  // part of the lesson yet, like the activity form, keep the browser's undo.
+  const { undo, redo } = editHistory;
   useEffect(() => {
-    const savedLessons = localStorage.getItem("darija-lessons");
-    if (savedLessons) {
-      // You could set this to state if you want to show existing lessons
-      console.log("Loaded saved lessons:", JSON.parse(savedLessons));
-    }
-  }, []);
+    if (view !== "setup" && view !== "builder") return;
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (
+        e.target instanceof Element &&
+        e.target.closest("[data-native-undo]")
+      ) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === "y" && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [view, undo, redo]);
 
-  // Save lessons to localStorage whenever lessonState changes
+  // Load the lesson named in the URL, or start a fresh one under that id
   useEffect(() => {
-    if (lessonState.activities.length > 0) {
-      const lessons = JSON.parse(
-        localStorage.getItem("darija-lessons") || "[]"
-      );
-      const existingIndex = lessons.findIndex(
-        (lesson) => lesson.id === lessonState.id
+    if (lessonId === undefined || String(lessonState.id) === lessonId) return;
+
+    let cancelled = false;
+    const startEditing = (action: LessonAction) => {
+      if (cancelled) return;
+      if (action.type === "LOAD_LESSON") markAutosaved(action.lesson);
+      dispatch(action);
+      setTempActivity({ ...initialActivityData, id: generateId() });
+      setIsEditingActivity(false);
+      setValidationErrors([]);
+      setIsLintOpen(false);
+      setSelectedActivityIds([]);
+    };
+
+    findSavedLesson(lessonId)
+      .catch((error) => {
+        console.error("Loading the lesson failed:", error);
+        return undefined;
+      })
+      .then((savedLesson) => {
+        if (cancelled) return;
+        if (savedLesson) {
+          resolveLessonAssets(savedLesson)
+            .catch(() => savedLesson)
+            .then((lesson) => startEditing({ type: "LOAD_LESSON", lesson }));
+        } else if (/^\d+$/.test(lessonId)) {
+          startEditing({ type: "RESET_LESSON", id: Number(lessonId) });
+        } else {
+          navigate(pathFor({ name: "lessons" }), { replace: true });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [lessonId, lessonState.id, dispatch, markAutosaved]);
+
+  // The open lesson rewritten elsewhere (its status changed in the list, an
+  // import, a sync pull) is reloaded, unless it has edits not saved yet.
+  // Read through a ref so typing does not resubscribe or drop a reload.
+  const lessonRef = useRef(lessonState);
+  useEffect(() => {
+    lessonRef.current = lessonState;
+  }, [lessonState]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const isReloadable = (stored: LessonDraft) => {
+      const current = lessonRef.current;
+      return (
+        !cancelled &&
+        current.id === stored.id &&
+        current.updatedAt !== stored.updatedAt &&
+        isAutosaved(current)
       );
+    };
+    const unsubscribe = subscribeLessonChanges((changedId) => {
+      if (changedId !== currentId) return;
+      getLesson(changedId)
+        .then(async (stored) => {
+          if (!stored || !isReloadable(stored)) return;
+          const lesson = await resolveLessonAssets(stored).catch(() => stored);
+          if (!isReloadable(stored)) return;
+          markAutosaved(lesson);
+          dispatch({ type: "LOAD_LESSON", lesson });
+        })
+        .catch((error) => console.error("Reloading the lesson failed:", error));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [currentId, isAutosaved, markAutosaved, dispatch]);
 
-      if (existingIndex >= 0) {
-        lessons[existingIndex] = lessonState;
-      } else {
-        lessons.push(lessonState);
-      }
+  const [revisionsVersion, refreshRevisions] = useReducer(
+    (count: number) => count + 1,
+    0
+  );
+
+  // Other saved lessons, as targets for moving an activity out of this one
+  const [moveTargets, setMoveTargets] = useState<LessonDraft[]>([]);
 
-      localStorage.setItem("darija-lessons", JSON.stringify(lessons));
+  useEffect(() => {
+    if (view !== "builder") return;
+    let cancelled = false;
+    listLessons()
+      .then(({ lessons }) => {
+        if (!cancelled) {
+          setMoveTargets(lessons.filter((lesson) => lesson.id !== currentId));
+        }
+      })
+      .catch((error) => console.error("Loading lessons failed:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [view, currentId]);
+
+  // Waits for the target's view to render, then brings it into sight
+  useEffect(() => {
+    if (!focusTargetId) return;
+    const element = document.getElementById(focusTargetId);
+    if (!element) return;
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    element.focus({ preventScroll: true });
+    setFocusTargetId(null);
+  }, [focusTargetId, view, isLessonLoaded]);
+
+  // Saved lessons for the list view, re-read after imports and deletes
+  const [listing, setListing] = useState<LessonListing | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [searchResults, setSearchResults] = useState<LessonDraft[] | null>(
+    null
+  );
+  const [listVersion, refreshLessonList] = useReducer(
+    (count: number) => count + 1,
+    0
+  );
+  // Null unless a team sync server is configured; each pull re-reads the list
+  const syncStatus = useSyncStatus();
+  const lastSyncedAt = syncStatus?.lastSyncedAt;
+
+  useEffect(() => {
+    if (view !== "list") return;
+    let cancelled = false;
+    flushAutosave()
+      .then(listLessons)
+      .then((result) => {
+        if (cancelled) return;
+        setListing(result);
+        setListError(null);
+        // Clean up stored audio that no saved lesson uses any more. A lesson
+        // that failed to load may still use stored files; keep them all.
+        if (result.failures.length === 0) {
+          cleanUpLessonAssets(result.lessons).catch((error) =>
+            console.error("Asset cleanup failed:", error)
+          );
+        }
+      })
+      .catch((error) => {
+        console.error("Loading lessons failed:", error);
+        if (!cancelled) setListError("Your lessons could not be loaded.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [view, listVersion, lastSyncedAt, flushAutosave]);
+
+  useEffect(() => {
+    if (view !== "list" || !searchQuery.trim()) return;
+    let cancelled = false;
+    searchLessons(searchQuery)
+      .then((lessons) => {
+        if (!cancelled) setSearchResults(lessons);
+      })
+      .catch((error) => console.error("Search failed:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [view, searchQuery, listVersion]);
+
+  const exportLessons = (lessons: LessonDraft[]) =>
+    downloadLessonPackage(lessons).catch((error) => {
+      console.error("Export failed:", error);
+      alert("The lessons could not be exported. Please try again.");
+    });
+
+  const removeLesson = async (lesson: LessonDraft) => {
+    if (!window.confirm(`Delete "${lesson.title || "Untitled lesson"}"?`)) {
+      return;
     }
-  }, [lessonState]);
+    try {
+      await deleteLesson(lesson.id);
+      refreshLessonList();
+    } catch (error) {
+      console.error("Deleting the lesson failed:", error);
+      alert("The lesson could not be deleted. Please try again.");
+    }
+  };
+
+  const changeLessonStatus = async (
+    lesson: LessonDraft,
+    status: LessonStatus
+  ) => {
+    if (lesson.status === "published" && !window.confirm(UNPUBLISH_WARNING)) {
+      return;
+    }
+    try {
+      await putLesson({
+        ...lesson,
+        status,
+        updatedAt: new Date().toISOString(),
+      });
+      refreshLessonList();
+    } catch (error) {
+      console.error("Changing the lesson status failed:", error);
+      alert("The lesson could not be updated. Please try again.");
+    }
+  };
+
+  // Lessons saved before settings existed fall back to the defaults
+  const lessonSettings = {
+    ...DEFAULT_LESSON_SETTINGS,
+    ...lessonState.settings,
+  };
+
+  const updateSettings = (patch: Partial<LessonSettings>) =>
+    dispatch({
+      type: "SET_FIELD",
+      field: "settings",
+      value: { ...lessonSettings, ...patch },
+    });
 
   // ===============================================
   // ACTIVITY MANAGEMENT FUNCTIONS
   // ===============================================
 
-  const handleAudioUpload = async (field, file) => {
-    // Simulate file upload - in real app, upload to cloud storage
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        const fileUrl = URL.createObjectURL(file);
-        resolve({ name: file.name, url: fileUrl });
-      }, 500);
+  const handleAssetUpload = async (file: File): Promise<AssetFile> => {
+    const assetId = await saveAsset(file);
+    const url = (await resolveAssetUrl(assetId)) ?? "";
+    return { name: file.name, assetId, url };
+  };
+
+  const updateMediaElement = (
+    field: MediaField,
+    elementIndex: number | null,
+    patch: Partial<PairDraft>
+  ) => {
+    setTempActivity((prev) => {
+      if (field === "question" || elementIndex === null) {
+        return { ...prev, question: { ...prev.question, ...patch } };
+      }
+      switch (field) {
+        case "options":
+          return {
+            ...prev,
+            options: prev.options.map((el, i) =>
+              i === elementIndex ? { ...el, ...patch } : el
+            ),
+          };
+        case "items":
+          return {
+            ...prev,
+            items: prev.items.map((el, i) =>
+              i === elementIndex ? { ...el, ...patch } : el
+            ),
+          };
+        case "pairs":
+          return {
+            ...prev,
+            pairs: prev.pairs.map((el, i) =>
+              i === elementIndex ? { ...el, ...patch } : el
+            ),
+          };
+      }
     });
   };
 
   const handleMediaElementChange = async (
-    field,
-    key,
-    value,
+    field: MediaField,
+    key: "text" | "translation" | "image" | "audioFile",
+    value: string | File | undefined,
     isAudio = false,
-    elementIndex = null
+    elementIndex: number | null = null
   ) => {
-    if (isAudio && value) {
-      const audioData = await handleAudioUpload(key, value);
-      setTempActivity((prev) => {
-        let newField = Array.isArray(prev[field])
-          ? [...prev[field]]
-          : { ...prev[field] };
-
-        if (elementIndex !== null) {
-          newField[elementIndex] = {
-            ...newField[elementIndex],
-            audioFile: audioData,
-          };
-        } else {
-          newField = { ...newField, audioFile: audioData };
-        }
-
-        return { ...prev, [field]: newField };
-      });
-    } else {
-      setTempActivity((prev) => {
-        let newField = Array.isArray(prev[field])
-          ? [...prev[field]]
-          : { ...prev[field] };
-
-        if (elementIndex !== null) {
-          newField[elementIndex] = { ...newField[elementIndex], [key]: value };
-        } else {
-          newField = { ...newField, [key]: value };
-        }
+    if (isAudio && value instanceof File) {
+      try {
+        const audioData = await handleAssetUpload(value);
+        updateMediaElement(field, elementIndex, { audioFile: audioData });
+      } catch (error) {
+        console.error("Audio upload failed:", error);
+        alert(`Could not save "${value.name}". Please try again.`);
+      }
+    } else if (typeof value === "string" && key !== "audioFile") {
+      updateMediaElement(field, elementIndex, { [key]: value });
+    }
+  };
 
-        return { ...prev, [field]: newField };
-      });
+  const handlePairImageUpload = async (index: number, file?: File) => {
+    if (!file) return;
+    try {
+      const imageFile = await handleAssetUpload(file);
+      updateMediaElement("pairs", index, { imageFile });
+    } catch (error) {
+      console.error("Image upload failed:", error);
+      alert(`Could not save "${file.name}". Please try again.`);
     }
   };
 
-  const handleTypeChange = (e) => {
-    const newType = e.target.value;
+  const handleTypeChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const newType = e.target.value as ActivityType;
     setTempActivity({
       ...initialActivityData,
       id: tempActivity.id,
@@ -414,10 +1065,10 @@ const TeacherDashboard = () => {
     resetTempActivity();
   };
 
-  const editActivity = (activity) => {
-    setTempActivity(activity);
+  const editActivity = (activity: ActivityDraft) => {
+    // Activities saved before a field existed get its default
+    setTempActivity({ ...initialActivityData, ...activity });
     setIsEditingActivity(true);
-    dispatch({ type: "SET_VIEW", view: "builder" });
   };
 
   const resetTempActivity = () => {
@@ -426,12 +1077,130 @@ const TeacherDashboard = () => {
     setValidationErrors([]);
   };
 
-  const deleteActivity = (id) => {
+  const deleteActivity = (id: number) => {
     if (window.confirm("Are you sure you want to delete this activity?")) {
       dispatch({ type: "DELETE_ACTIVITY", id });
     }
   };
 
+  const duplicateActivity = (id: number) =>
+    dispatch({ type: "DUPLICATE_ACTIVITY", id });
+
+  const moveActivity = (from: number, to: number) => {
+    const { activities } = lessonState;
+    if (from === to || to < 0 || to >= activities.length) return;
+    dispatch({
+      type: "REORDER_ACTIVITIES",
+      activities: moveItem(activities, from, to),
+    });
+  };
+
+  const dropActivity = (index: number) => {
+    if (dragIndex !== null) moveActivity(dragIndex, index);
+    setDragIndex(null);
+  };
+
+  // Saved to the other lesson first, so a failed write loses nothing here
+  const moveActivityToLesson = async (
+    activity: ActivityDraft,
+    targetId: number
+  ) => {
+    try {
+      const target = await getLesson(targetId);
+      if (!target) throw new Error(`Lesson ${targetId} not found`);
+      await putLesson({
+        ...target,
+        activities: [
+          ...target.activities,
+          { ...activity, id: newActivityId(target.activities) },
+        ],
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("Moving the activity failed:", error);
+      alert("The activity could not be moved. Please try again.");
+      return;
+    }
+    dispatch({ type: "DELETE_ACTIVITY", id: activity.id });
+    if (tempActivity.id === activity.id) resetTempActivity();
+  };
+
+  const toggleActivitySelected = (id: number) =>
+    setSelectedActivityIds((ids) =>
+      ids.includes(id) ? ids.filter((entry) => entry !== id) : [...ids, id]
+    );
+
+  const deleteSelectedActivities = () => {
+    if (
+      !window.confirm(
+        `Delete ${selectedActivities.length} selected activit${
+          selectedActivities.length === 1 ? "y" : "ies"
+        }?`
+      )
+    ) {
+      return;
+    }
+    dispatch({ type: "DELETE_ACTIVITIES", ids: selectedActivities });
+    if (selectedActivities.includes(tempActivity.id)) resetTempActivity();
+    setSelectedActivityIds([]);
+  };
+
+  // Publishing freezes the draft as a new version for learners, once it
+  // has no lesson check errors, and keeps a revision of it
+  const handlePublish = async () => {
+    if (lintErrors(lintLesson(lessonState)).length > 0) {
+      setIsLintOpen(true);
+      return;
+    }
+
+    const action = {
+      type: "PUBLISH_LESSON",
+      publishedAt: new Date().toISOString(),
+      pinnedVersions: pinnedVersions(String(lessonState.id)),
+    } as const;
+    dispatch(action);
+    const published = publishLesson(
+      lessonState,
+      action.pinnedVersions,
+      action.publishedAt
+    );
+    try {
+      await saveRevision(
+        published,
+        `Published version ${latestVersion(published)?.version}`,
+        "publish"
+      );
+      refreshRevisions();
+    } catch (error) {
+      console.error("Saving the published revision failed:", error);
+    }
+    alert("Lesson published successfully!");
+  };
+
+  // Click-to-fix: go to the field or open the activity an issue points at
+  const fixLintIssue = ({ target }: LintIssue) => {
+    if (target.view === "setup") {
+      setFocusTargetId(
+        target.field === "title"
+          ? "lesson-title"
+          : `lesson-objective-${target.index}`
+      );
+      navigate(pathFor({ name: "setup", lessonId: String(lessonState.id) }));
+      return;
+    }
+    const activity = lessonState.activities.find(
+      (act) => act.id === target.activityId
+    );
+    if (activity) editActivity(activity);
+    setFocusTargetId("activity-editor");
+  };
+
+  const unpublishLesson = () => {
+    if (window.confirm(UNPUBLISH_WARNING)) {
+      dispatch({ type: "SET_FIELD", field: "status", value: "draft" });
+    }
+  };
+
   // ===============================================
   // ACTIVITY TYPE RENDERERS
   // ===============================================
@@ -466,13 +1235,8 @@ const TeacherDashboard = () => {
               question: { ...prev.question, [key]: value },
             }))
           }
-          onChangeAudio={(e) =>
-            handleMediaElementChange(
-              "question",
-              "audioFile",
-              e.target.files[0],
-              true
-            )
+          onChangeAudio={(file) =>
+            handleMediaElementChange("question", "audioFile", file, true)
           }
           isDarija={false}
           isQuestion={true}
@@ -488,7 +1252,7 @@ const TeacherDashboard = () => {
               onChange={(e) =>
                 setTempActivity((prev) => ({
                   ...prev,
-                  difficulty: e.target.value,
+                  difficulty: e.target.value as Difficulty,
                 }))
               }
               className="p-2 border border-gray-300 rounded w-full focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
@@ -521,6 +1285,68 @@ const TeacherDashboard = () => {
       </div>
     );
 
+    // Answer list shared by the typed-answer activities; the first is the model answer
+    const renderAcceptedAnswers = (heading: string, inDarija: boolean) => (
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="font-bold text-gray-800">{heading}</h4>
+          <button
+            type="button"
+            onClick={() =>
+              setTempActivity((prev) => ({
+                ...prev,
+                acceptedAnswers: [...prev.acceptedAnswers, ""],
+              }))
+            }
+            className="text-indigo-600 hover:text-indigo-800 text-sm font-semibold"
+          >
+            + Add Answer
+          </button>
+        </div>
+        {tempActivity.acceptedAnswers.map((answer, index) => (
+          <div key={index} className="mb-2">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={answer}
+                onChange={(e) =>
+                  setTempActivity((prev) => ({
+                    ...prev,
+                    acceptedAnswers: prev.acceptedAnswers.map((a, i) =>
+                      i === index ? e.target.value : a
+                    ),
+                  }))
+                }
+                placeholder={index === 0 ? "Model answer" : "Also accepted"}
+                className="p-2 border border-gray-300 rounded flex-grow focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+              {tempActivity.acceptedAnswers.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    setTempActivity((prev) => ({
+                      ...prev,
+                      acceptedAnswers: prev.acceptedAnswers.filter(
+                        (_, i) => i !== index
+                      ),
+                    }))
+                  }
+                  className="text-red-500 hover:text-red-700 p-2"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+            {inDarija && <ArabicPreview text={answer} />}
+          </div>
+        ))}
+        <p className="text-sm text-gray-600 mt-2">
+          The first answer is shown as the model answer. Spelling variants and
+          small typos are accepted automatically.
+        </p>
+      </div>
+    );
+
     switch (type) {
       case "multiple-choice":
         return (
@@ -580,11 +1406,11 @@ const TeacherDashboard = () => {
                           index
                         )
                       }
-                      onChangeAudio={(e) =>
+                      onChangeAudio={(file) =>
                         handleMediaElementChange(
                           "options",
                           "audioFile",
-                          e.target.files[0],
+                          file,
                           true,
                           index
                         )
@@ -642,11 +1468,11 @@ const TeacherDashboard = () => {
                   onChangeText={(key, value) =>
                     handleMediaElementChange("items", key, value, false, index)
                   }
-                  onChangeAudio={(e) =>
+                  onChangeAudio={(file) =>
                     handleMediaElementChange(
                       "items",
                       "audioFile",
-                      e.target.files[0],
+                      file,
                       true,
                       index
                     )
@@ -729,11 +1555,11 @@ const TeacherDashboard = () => {
                             index
                           )
                         }
-                        onChangeAudio={(e) =>
+                        onChangeAudio={(file) =>
                           handleMediaElementChange(
                             "pairs",
                             "audioFile",
-                            e.target.files[0],
+                            file,
                             true,
                             index
                           )
@@ -764,6 +1590,41 @@ const TeacherDashboard = () => {
                       <p className="text-xs text-gray-500 mt-1">
                         Use emojis like 🌅, 🍵, or image URLs
                       </p>
+
+                      <label className="block text-xs font-medium text-gray-600 mt-3 mb-1">
+                        Or upload a picture
+                      </label>
+                      <input
+                        type="file"
+                        accept="image/*"
+                        onChange={(e) =>
+                          handlePairImageUpload(index, e.target.files?.[0])
+                        }
+                        className="w-full text-sm p-2 border border-gray-300 rounded file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+                      />
+
+                      {(pair.imageFile?.url || isImageUrl(pair.image)) && (
+                        <div className="mt-2 flex items-center space-x-3">
+                          <img
+                            src={pair.imageFile?.url || pair.image}
+                            alt={pair.text || `Pair ${index + 1}`}
+                            className="h-16 w-16 object-cover rounded border"
+                          />
+                          {pair.imageFile && (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                updateMediaElement("pairs", index, {
+                                  imageFile: null,
+                                })
+                              }
+                              className="text-red-500 hover:text-red-700 text-xs"
+                            >
+                              Remove {pair.imageFile.name}
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -790,11 +1651,13 @@ const TeacherDashboard = () => {
                 }
                 placeholder="Enter sentence with blanks marked like {correct_word}. Example: Smeety Alex, o {nty}?"
                 className="p-3 border border-gray-300 rounded w-full h-24 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                rows="4"
+                rows={4}
               />
               <p className="text-sm text-gray-600 mt-2">
                 Use curly braces {"{}"} to mark the blanks. The system will
                 automatically extract words like "nty" as correct answers.
+                Common spelling variants are accepted; list others with {"|"},
+                usual spelling first: {"{nty|nti}"}.
               </p>
 
               <div className="mt-4">
@@ -803,11 +1666,11 @@ const TeacherDashboard = () => {
                 </label>
                 <input
                   type="text"
-                  value={tempActivity.wordBlocks.join(", ")}
+                  value={tempActivity.wordPool.join(", ")}
                   onChange={(e) =>
                     setTempActivity((prev) => ({
                       ...prev,
-                      wordBlocks: e.target.value
+                      wordPool: e.target.value
                         .split(",")
                         .map((w) => w.trim())
                         .filter((w) => w),
@@ -821,6 +1684,79 @@ const TeacherDashboard = () => {
           </>
         );
 
+      case "translate":
+        return (
+          <>
+            {commonFields}
+            <div className="mt-6 space-y-4">
+              <div>
+                <label className="block font-semibold text-gray-700 mb-2">
+                  Learner translates into
+                </label>
+                <select
+                  value={tempActivity.translateDirection}
+                  onChange={(e) =>
+                    setTempActivity((prev) => ({
+                      ...prev,
+                      translateDirection: e.target.value as TranslateDirection,
+                    }))
+                  }
+                  className="p-2 border border-gray-300 rounded w-full focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                >
+                  <option value="to-darija">Darija (prompt in English)</option>
+                  <option value="to-english">English (prompt in Darija)</option>
+                </select>
+                <p className="text-sm text-gray-600 mt-2">
+                  The Question text above is the sentence to translate.
+                </p>
+              </div>
+
+              {renderAcceptedAnswers(
+                "Accepted Answers *",
+                tempActivity.translateDirection === "to-darija"
+              )}
+            </div>
+          </>
+        );
+
+      case "dictation":
+        return (
+          <>
+            {commonFields}
+            <div className="mt-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Upload or record the clip in the Question audio above; learners
+                can replay it and slow it down, then type what they hear.
+              </p>
+              {renderAcceptedAnswers("Transcript *", true)}
+            </div>
+          </>
+        );
+
+      case "speak":
+        return (
+          <>
+            {commonFields}
+            <div className="mt-6">
+              <h4 className="font-bold text-gray-800">Phrase to Say *</h4>
+              <p className="text-sm text-gray-600">
+                Learners hear this recording, record themselves and compare the
+                two. Their takes are kept for you to score.
+              </p>
+              <MediaElementInput
+                label="Phrase and model audio"
+                value={items[0] ?? initialMediaElement}
+                onChangeText={(key, value) =>
+                  handleMediaElementChange("items", key, value, false, 0)
+                }
+                onChangeAudio={(file) =>
+                  handleMediaElementChange("items", "audioFile", file, true, 0)
+                }
+              />
+            </div>
+          </>
+        );
+
       default:
         return null;
     }
@@ -831,10 +1767,15 @@ const TeacherDashboard = () => {
   // ===============================================
 
   // Lesson List View
-  if (lessonState.currentView === "list") {
-    const savedLessons = JSON.parse(
-      localStorage.getItem("darija-lessons") || "[]"
-    );
+  if (view === "list") {
+    const savedLessons = listing?.lessons ?? [];
+    const failures = listing?.failures ?? [];
+    const archivedCount = savedLessons.filter(
+      (lesson) => lesson.status === "archived"
+    ).length;
+    const shownLessons = (
+      searchQuery.trim() && searchResults ? searchResults : savedLessons
+    ).filter((lesson) => showArchived || lesson.status !== "archived");
 
     return (
       <div className="min-h-screen bg-gray-50 py-8">
@@ -851,15 +1792,85 @@ const TeacherDashboard = () => {
           <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-2xl font-bold text-gray-800">Your Lessons</h2>
-              <button
-                onClick={() => dispatch({ type: "RESET_LESSON" })}
-                className="bg-green-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-green-700 transition-colors shadow-md"
-              >
-                + Create New Lesson
-              </button>
+              <div className="flex items-center space-x-3">
+                <LessonImport onImported={refreshLessonList} />
+                <button
+                  onClick={() => exportLessons(savedLessons)}
+                  disabled={savedLessons.length === 0}
+                  className="bg-white text-indigo-600 border border-indigo-600 px-4 py-3 rounded-lg font-semibold hover:bg-indigo-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Export All
+                </button>
+                <button
+                  onClick={() =>
+                    navigate(
+                      pathFor({ name: "setup", lessonId: String(Date.now()) })
+                    )
+                  }
+                  className="bg-green-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-green-700 transition-colors shadow-md"
+                >
+                  + Create New Lesson
+                </button>
+              </div>
             </div>
 
-            {savedLessons.length === 0 ? (
+            {syncStatus && (
+              <SyncStatusPanel
+                status={syncStatus}
+                onResolved={refreshLessonList}
+              />
+            )}
+
+            {savedLessons.length > 0 && (
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search titles, tags, objectives and activities…"
+                className="w-full p-3 mb-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+            )}
+            {archivedCount > 0 && (
+              <label className="flex items-center space-x-2 mb-4 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={showArchived}
+                  onChange={(e) => setShowArchived(e.target.checked)}
+                  className="h-4 w-4 text-indigo-600 rounded"
+                />
+                <span>Show archived lessons ({archivedCount})</span>
+              </label>
+            )}
+
+            {listError && (
+              <div className="p-4 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {listError}
+              </div>
+            )}
+
+            {failures.length > 0 && (
+              <div className="p-4 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <p className="font-semibold">
+                  {failures.length} saved lesson(s) couldn't be loaded. They are
+                  kept in storage unchanged.
+                </p>
+                <ul className="list-disc list-inside">
+                  {failures.map((failure) => (
+                    <li key={failure.index}>
+                      "{failure.title}": {failure.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {!listing ? (
+              !listError && (
+                <p className="text-center py-12 text-gray-500">
+                  Loading lessons…
+                </p>
+              )
+            ) : savedLessons.length === 0 ? (
               <div className="text-center py-12">
                 <div className="text-6xl mb-4">📚</div>
                 <h3 className="text-xl font-semibold text-gray-700 mb-2">
@@ -871,16 +1882,26 @@ const TeacherDashboard = () => {
               </div>
             ) : (
               <div className="grid gap-4">
-                {savedLessons.map((lesson, index) => (
+                {shownLessons.length === 0 && (
+                  <p className="text-center py-6 text-gray-500">
+                    {searchQuery.trim()
+                      ? `No lessons match "${searchQuery.trim()}"`
+                      : "All your lessons are archived"}
+                  </p>
+                )}
+                {shownLessons.map((lesson) => (
                   <div
                     key={lesson.id}
                     className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow bg-white"
                   >
                     <div className="flex justify-between items-center">
                       <div>
-                        <h3 className="font-semibold text-lg text-gray-800">
-                          {lesson.title}
-                        </h3>
+                        <div className="flex items-center space-x-3">
+                          <h3 className="font-semibold text-lg text-gray-800">
+                            {lesson.title}
+                          </h3>
+                          <LessonStatusBadge lesson={lesson} />
+                        </div>
                         <p className="text-gray-600 text-sm">
                           {lesson.activities.length} activities • {lesson.level}{" "}
                           • Last updated:{" "}
@@ -890,15 +1911,66 @@ const TeacherDashboard = () => {
                       <div className="flex space-x-2">
                         <button
                           onClick={() =>
-                            dispatch({ type: "LOAD_LESSON", lesson })
+                            navigate(
+                              pathFor({
+                                name: "setup",
+                                lessonId: String(lesson.id),
+                              })
+                            )
                           }
                           className="bg-indigo-600 text-white px-4 py-2 rounded hover:bg-indigo-700 transition-colors"
                         >
                           Edit
                         </button>
-                        <button className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600 transition-colors">
+                        <button
+                          onClick={() =>
+                            navigate(
+                              pathFor({
+                                name: "preview",
+                                lessonId: String(lesson.id),
+                              })
+                            )
+                          }
+                          disabled={lesson.activities.length === 0}
+                          className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
                           Preview
                         </button>
+                        <button
+                          onClick={() => exportLessons([lesson])}
+                          className="text-indigo-600 border border-indigo-600 px-4 py-2 rounded hover:bg-indigo-50 transition-colors"
+                        >
+                          Export
+                        </button>
+                        {lesson.status === "published" && (
+                          <button
+                            onClick={() => changeLessonStatus(lesson, "draft")}
+                            className="text-gray-600 border border-gray-300 px-4 py-2 rounded hover:bg-gray-50 transition-colors"
+                          >
+                            Unpublish
+                          </button>
+                        )}
+                        <button
+                          onClick={() =>
+                            changeLessonStatus(
+                              lesson,
+                              lesson.status === "archived"
+                                ? "draft"
+                                : "archived"
+                            )
+                          }
+                          className="text-gray-600 border border-gray-300 px-4 py-2 rounded hover:bg-gray-50 transition-colors"
+                        >
+                          {lesson.status === "archived"
+                            ? "Unarchive"
+                            : "Archive"}
+                        </button>
+                        <button
+                          onClick={() => removeLesson(lesson)}
+                          className="text-red-600 border border-red-600 px-4 py-2 rounded hover:bg-red-50 transition-colors"
+                        >
+                          Delete
+                        </button>
                       </div>
                     </div>
                   </div>
@@ -906,13 +1978,32 @@ const TeacherDashboard = () => {
               </div>
             )}
           </div>
+
+          <SpeakingReviews lessons={savedLessons} />
         </div>
       </div>
     );
   }
 
+  // The setup and builder views wait for the effect above to load the lesson
+  if (!isLessonLoaded) return null;
+
+  // Draft Preview View
+  if (view === "preview") {
+    return (
+      <LessonPreview
+        lesson={lessonState}
+        onBack={() =>
+          navigate(
+            pathFor({ name: "builder", lessonId: String(lessonState.id) })
+          )
+        }
+      />
+    );
+  }
+
   // Lesson Setup View
-  if (lessonState.currentView === "setup") {
+  if (view === "setup") {
     return (
       <div className="min-h-screen bg-gray-50 py-8">
         <div className="max-w-4xl mx-auto px-4">
@@ -927,12 +2018,14 @@ const TeacherDashboard = () => {
                 </p>
               </div>
               <button
-                onClick={() => dispatch({ type: "SET_VIEW", view: "list" })}
+                onClick={() => navigate(pathFor({ name: "lessons" }))}
                 className="text-gray-500 hover:text-gray-700"
               >
                 ← Back to Lessons
               </button>
             </div>
+            <AutosaveNotice status={autosave.status} error={autosave.error} />
+            <HistoryPanel history={editHistory} />
 
             <div className="space-y-6">
               <div>
@@ -940,6 +2033,7 @@ const TeacherDashboard = () => {
                   Lesson Title *
                 </label>
                 <input
+                  id="lesson-title"
                   type="text"
                   value={lessonState.title}
                   onChange={(e) =>
@@ -1015,6 +2109,7 @@ const TeacherDashboard = () => {
                 {lessonState.objectives.map((obj, index) => (
                   <div key={index} className="flex items-center space-x-2 mb-2">
                     <input
+                      id={`lesson-objective-${index}`}
                       type="text"
                       value={obj}
                       onChange={(e) => {
@@ -1069,16 +2164,78 @@ const TeacherDashboard = () => {
                 />
               </div>
 
+              <div>
+                <label className="block text-lg font-semibold text-gray-700 mb-2">
+                  Practice Settings
+                </label>
+                <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+                  <label className="flex items-center justify-between text-gray-700">
+                    <span>Retries after a wrong answer</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={5}
+                      value={lessonSettings.maxRetries}
+                      onChange={(e) =>
+                        updateSettings({
+                          maxRetries: Math.min(
+                            5,
+                            Math.max(0, Number(e.target.value) || 0)
+                          ),
+                        })
+                      }
+                      className="p-2 border border-gray-300 rounded-lg w-20 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    />
+                  </label>
+                  <label className="flex items-center space-x-2 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={lessonSettings.requeueMistakes}
+                      onChange={(e) =>
+                        updateSettings({ requeueMistakes: e.target.checked })
+                      }
+                      className="h-4 w-4 text-indigo-600"
+                    />
+                    <span>
+                      Repeat missed activities at the end of the lesson
+                    </span>
+                  </label>
+                  <label className="flex items-center justify-between text-gray-700">
+                    <span>Show Darija text in</span>
+                    <select
+                      value={lessonSettings.script}
+                      onChange={(e) =>
+                        updateSettings({
+                          script: e.target.value as DarijaScript,
+                        })
+                      }
+                      className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    >
+                      {DARIJA_SCRIPTS.map((script) => (
+                        <option key={script.value} value={script.value}>
+                          {script.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              </div>
+
               <div className="flex justify-between pt-6 border-t">
                 <button
-                  onClick={() => dispatch({ type: "SET_VIEW", view: "list" })}
+                  onClick={() => navigate(pathFor({ name: "lessons" }))}
                   className="px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
                 >
                   Cancel
                 </button>
                 <button
                   onClick={() =>
-                    dispatch({ type: "SET_VIEW", view: "builder" })
+                    navigate(
+                      pathFor({
+                        name: "builder",
+                        lessonId: String(lessonState.id),
+                      })
+                    )
                   }
                   className="bg-indigo-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors"
                 >
@@ -1093,7 +2250,12 @@ const TeacherDashboard = () => {
   }
 
   // Activity Builder View
-  if (lessonState.currentView === "builder") {
+  if (view === "builder") {
+    // Nothing new to publish: learners already have this draft
+    const isUpToDate =
+      lessonState.status === "published" && !hasUnpublishedChanges(lessonState);
+    const lintIssues = lintLesson(lessonState);
+
     return (
       <div className="min-h-screen bg-gray-50 py-8">
         <div className="max-w-6xl mx-auto px-4">
@@ -1107,14 +2269,41 @@ const TeacherDashboard = () => {
                   Building: <strong>{lessonState.title}</strong> •
                   {lessonState.activities.length} activities added
                 </p>
+                <div className="mt-2 flex items-center space-x-3 text-sm">
+                  <LessonStatusBadge lesson={lessonState} />
+                  {lessonState.status === "published" && (
+                    <button
+                      onClick={unpublishLesson}
+                      className="text-gray-500 hover:text-gray-700"
+                    >
+                      Unpublish
+                    </button>
+                  )}
+                </div>
               </div>
               <button
-                onClick={() => dispatch({ type: "SET_VIEW", view: "setup" })}
+                onClick={() =>
+                  navigate(
+                    pathFor({ name: "setup", lessonId: String(lessonState.id) })
+                  )
+                }
                 className="text-gray-500 hover:text-gray-700"
               >
                 ← Back to Setup
               </button>
             </div>
+            <AutosaveNotice status={autosave.status} error={autosave.error} />
+            <HistoryPanel history={editHistory} />
+            <LessonRevisions
+              lesson={lessonState}
+              version={revisionsVersion}
+              onRestoreLesson={(lesson) =>
+                dispatch({ type: "RESTORE_REVISION", lesson })
+              }
+              onRestoreActivity={(activity, index) =>
+                dispatch({ type: "RESTORE_ACTIVITY", activity, index })
+              }
+            />
 
             {/* Current Activities */}
             <section className="mb-8">
@@ -1133,22 +2322,75 @@ const TeacherDashboard = () => {
                   </p>
                 </div>
               ) : (
-                <div className="grid gap-4">
-                  {lessonState.activities.map((activity, index) => (
-                    <ActivityPreview
-                      key={activity.id}
-                      activity={activity}
-                      index={index}
-                      onEdit={editActivity}
-                      onDelete={deleteActivity}
-                    />
-                  ))}
-                </div>
+                <>
+                  <div className="flex items-center justify-between mb-3 text-sm text-gray-600">
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={
+                          selectedActivities.length ===
+                          lessonState.activities.length
+                        }
+                        onChange={(e) =>
+                          setSelectedActivityIds(
+                            e.target.checked
+                              ? lessonState.activities.map(
+                                  (activity) => activity.id
+                                )
+                              : []
+                          )
+                        }
+                        className="h-4 w-4 text-indigo-600 rounded"
+                      />
+                      <span>
+                        {selectedActivities.length > 0
+                          ? `${selectedActivities.length} selected`
+                          : "Select all"}
+                      </span>
+                    </label>
+                    {selectedActivities.length > 0 && (
+                      <button
+                        onClick={deleteSelectedActivities}
+                        className="text-red-600 hover:text-red-800 px-3 py-1 border border-red-600 rounded hover:bg-red-50 transition-colors"
+                      >
+                        Delete selected
+                      </button>
+                    )}
+                  </div>
+                  <div
+                    className="grid gap-4"
+                    onDragEnd={() => setDragIndex(null)}
+                  >
+                    {lessonState.activities.map((activity, index) => (
+                      <ActivityPreview
+                        key={activity.id}
+                        activity={activity}
+                        index={index}
+                        count={lessonState.activities.length}
+                        isSelected={selectedActivities.includes(activity.id)}
+                        moveTargets={moveTargets}
+                        onEdit={editActivity}
+                        onDelete={deleteActivity}
+                        onDuplicate={duplicateActivity}
+                        onToggleSelected={toggleActivitySelected}
+                        onMove={moveActivity}
+                        onMoveToLesson={moveActivityToLesson}
+                        onDragStart={setDragIndex}
+                        onDrop={dropActivity}
+                      />
+                    ))}
+                  </div>
+                </>
               )}
             </section>
 
             {/* Add New Activity */}
-            <section className="border-t pt-8">
+            <section
+              id="activity-editor"
+              tabIndex={-1}
+              className="border-t pt-8 focus:outline-none"
+              data-native-undo
+            >
               <h2 className="text-xl font-semibold text-gray-800 mb-4">
                 {isEditingActivity ? "Edit Activity" : "Add New Activity"}
               </h2>
@@ -1168,6 +2410,9 @@ const TeacherDashboard = () => {
                   <option value="ordering">Ordering Elements</option>
                   <option value="match-image">Match Phrase to Image</option>
                   <option value="dialogue">Dialogue Practice</option>
+                  <option value="translate">Translate (typed answer)</option>
+                  <option value="dictation">Listening Dictation</option>
+                  <option value="speak">Speaking Practice</option>
                 </select>
               </div>
 
@@ -1213,10 +2458,21 @@ const TeacherDashboard = () => {
               )}
             </section>
 
+            <LessonLintPanel
+              issues={lintIssues}
+              isOpen={isLintOpen}
+              onToggle={() => setIsLintOpen((open) => !open)}
+              onFix={fixLintIssue}
+            />
+
             {/* Final Actions */}
             <div className="flex justify-between items-center mt-8 pt-6 border-t">
               <button
-                onClick={() => dispatch({ type: "SET_VIEW", view: "setup" })}
+                onClick={() =>
+                  navigate(
+                    pathFor({ name: "setup", lessonId: String(lessonState.id) })
+                  )
+                }
                 className="px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
               >
                 ← Back to Lesson Setup
@@ -1224,29 +2480,30 @@ const TeacherDashboard = () => {
 
               <div className="flex space-x-3">
                 <button
-                  onClick={() => {
-                    // Preview functionality
-                    console.log("Preview Lesson:", lessonState);
-                    alert("Preview functionality would open in a new tab");
-                  }}
-                  className="px-6 py-3 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors"
+                  onClick={() =>
+                    navigate(
+                      pathFor({
+                        name: "preview",
+                        lessonId: String(lessonState.id),
+                      })
+                    )
+                  }
+                  disabled={lessonState.activities.length === 0}
+                  className="px-6 py-3 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   Preview Lesson
                 </button>
 
                 <button
-                  onClick={() => {
-                    // Save and publish
-                    dispatch({
-                      type: "SET_FIELD",
-                      field: "isPublished",
-                      value: true,
-                    });
-                    alert("Lesson published successfully!");
-                  }}
-                  className="px-8 py-3 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-colors shadow-md"
+                  onClick={handlePublish}
+                  disabled={isUpToDate}
+                  className="px-8 py-3 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  Save & Publish Lesson
+                  {isUpToDate
+                    ? "Published"
+                    : lessonState.status === "published"
+                      ? "Publish Changes"
+                      : "Save & Publish Lesson"}
                 </button>
               </div>
             </div>
@@ -0,0 +1,40 @@
+interface WaveformProps {
+  /** Peak levels (0..1), one bar each. */
+  peaks: number[];
+  className?: string;
+  barClassName?: string;
+}
+
+const Waveform = ({
+  peaks,
+  className = "h-12 w-full",
+  barClassName = "fill-indigo-500",
+}: WaveformProps) => {
+  const barWidth = 100 / Math.max(1, peaks.length);
+
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 100 100"
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Waveform"
+    >
+      {peaks.map((peak, i) => {
+        const height = Math.max(2, peak * 100);
+        return (
+          <rect
+            key={i}
+            x={i * barWidth + barWidth * 0.15}
+            y={(100 - height) / 2}
+            width={barWidth * 0.7}
+            height={height}
+            className={barClassName}
+          />
+        );
+      })}
+    </svg>
+  );
+};
+
+export default Waveform;
@@ -0,0 +1,20 @@
+import type { DiffWord } from "../lib/answerMatching";
+
+const WORD_STYLES: Record<DiffWord["kind"], string> = {
+  same: "",
+  missing: "bg-green-200 text-green-900 rounded px-1",
+  extra: "bg-red-200 text-red-900 line-through rounded px-1",
+};
+
+/** The learner's answer with missing words added and extra ones struck. */
+const WordDiff = ({ diff }: { diff: DiffWord[] }) => (
+  <span className="inline-flex flex-wrap gap-x-1.5 gap-y-1">
+    {diff.map((entry, i) => (
+      <span key={i} className={WORD_STYLES[entry.kind]}>
+        {entry.word}
+      </span>
+    ))}
+  </span>
+);
+
+export default WordDiff;
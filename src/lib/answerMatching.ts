@@ -0,0 +1,221 @@
+import { arabicToArabizi } from "./transliteration";
+
+// ===============================================
+// ANSWER MATCHING
+// Darija has no standard spelling: "Sba7 L5eer", "sbah lkhir" and
+// "Sbe7 l5ir" are all the same greeting. Graders compare answers through
+// this module instead of with ===.
+// ===============================================
+
+/** Spellings of the same sound, rewritten to one form (order matters). */
+const SOUND_EQUIVALENTS: [RegExp, string][] = [
+  [/x/g, "ks"],
+  [/[cs]h/g, "x"], // ش
+  [/kh/g, "5"], // خ
+  [/gh/g, "ɣ"], // غ, kept apart from the digits Arabizi uses
+  [/th/g, "t"],
+  [/dj/g, "j"],
+  [/c/g, "k"],
+  [/q/g, "9"], // ق
+  [/[h8]/g, "7"], // ح and ه are often both written h; 8 is ه too
+  [/2/g, ""], // the glottal stop is usually left out
+  [/ou|oo|o|u/g, "u"],
+  [/ee|ii|y/g, "i"],
+  [/aa/g, "a"],
+  [/e/g, ""], // the short schwa is spelled any way or not at all
+  [/([^aiu])\1+/g, "$1"], // doubled consonants
+];
+
+const VOWELS = /[aiu]/g;
+
+/**
+ * Canonical spelling for comparison: Arabizi (answers typed in Arabic script
+ * are transliterated), lower case, no punctuation, and one spelling per
+ * sound.
+ */
+export const normalizeDarija = (text: string) =>
+  SOUND_EQUIVALENTS.reduce(
+    (normalized, [pattern, replacement]) =>
+      normalized.replace(pattern, replacement),
+    arabicToArabizi(text)
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, "")
+      .trim()
+      .replace(/\s+/g, " ")
+  );
+
+/** A word's consonants, plus its final vowel: internal vowels vary freely
+ * between spellings, but the ending carries grammar (nta / nty). */
+const skeleton = (word: string) =>
+  word.replace(VOWELS, "") + (/[aiu]$/.exec(word)?.[0] ?? "");
+
+/** Whether two spellings are the same Darija phrase. */
+export const isSameDarija = (a: string, b: string) => {
+  const left = normalizeDarija(a);
+  const right = normalizeDarija(b);
+  if (left === right) return true;
+
+  const leftWords = left.split(" ");
+  const rightWords = right.split(" ");
+  return (
+    leftWords.length === rightWords.length &&
+    leftWords.every((word, i) => skeleton(word) === skeleton(rightWords[i]))
+  );
+};
+
+export interface AnswerMatch {
+  status: "exact" | "variant" | "wrong";
+  /** The spelling to teach. */
+  usual: string;
+}
+
+/**
+ * Grades `answer` against the accepted spellings; the first one is the usual
+ * spelling. A variant is right, but the learner should see the usual form.
+ */
+export const matchAnswer = (
+  answer: string,
+  accepted: string[]
+): AnswerMatch => {
+  const usual = accepted[0] ?? "";
+  const typed = answer.trim().toLowerCase();
+  if (typed === usual.trim().toLowerCase()) return { status: "exact", usual };
+  return accepted.some((spelling) => isSameDarija(answer, spelling))
+    ? { status: "variant", usual }
+    : { status: "wrong", usual };
+};
+
+/** The "accepted, but…" note for a variant answer, or null. */
+export const spellingNote = (match: AnswerMatch) =>
+  match.status === "variant"
+    ? `Accepted, but the usual spelling is "${match.usual}".`
+    : null;
+
+// ===============================================
+// TYPED ANSWERS
+// ===============================================
+
+export type AnswerLanguage = "darija" | "english";
+
+const normalizeEnglish = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+
+const normalizeFor = (language: AnswerLanguage) =>
+  language === "darija" ? normalizeDarija : normalizeEnglish;
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** Typos forgiven in an answer of this length: none in short words, where
+ * one letter changes the meaning, then one per six letters. */
+const typoAllowance = (length: number) => Math.floor(length / 6);
+
+export interface TypedAnswerMatch {
+  /** "close" is right apart from a typo or two. */
+  status: "exact" | "variant" | "close" | "wrong";
+  /** The accepted answer nearest to what was typed. */
+  closest: string;
+}
+
+/** Grades a typed sentence against the accepted answers. */
+export const matchTypedAnswer = (
+  answer: string,
+  accepted: string[],
+  language: AnswerLanguage
+): TypedAnswerMatch => {
+  const normalize = normalizeFor(language);
+  const typed = normalize(answer);
+  const ranked = accepted
+    .map((spelling) => ({
+      spelling,
+      distance: editDistance(typed, normalize(spelling)),
+    }))
+    .sort((a, b) => a.distance - b.distance);
+  const best = ranked[0];
+  if (!best) return { status: "wrong", closest: "" };
+
+  const closest = best.spelling;
+  if (answer.trim().toLowerCase() === closest.trim().toLowerCase()) {
+    return { status: "exact", closest };
+  }
+  if (
+    best.distance === 0 ||
+    (language === "darija" && isSameDarija(answer, closest))
+  ) {
+    return { status: language === "darija" ? "variant" : "exact", closest };
+  }
+  return best.distance <= typoAllowance(normalize(closest).length)
+    ? { status: "close", closest }
+    : { status: "wrong", closest };
+};
+
+export interface DiffWord {
+  word: string;
+  /** "missing" words are in the expected answer only, "extra" in the
+   * learner's only. */
+  kind: "same" | "missing" | "extra";
+}
+
+/** Word-by-word difference between an answer and the expected one. */
+export const diffWords = (
+  answer: string,
+  expected: string,
+  language: AnswerLanguage
+): DiffWord[] => {
+  const normalize = normalizeFor(language);
+  const given = answer.trim().split(/\s+/).filter(Boolean);
+  const wanted = expected.trim().split(/\s+/).filter(Boolean);
+  const same = (a: string, b: string) =>
+    language === "darija" ? isSameDarija(a, b) : normalize(a) === normalize(b);
+
+  // Longest common subsequence, filled from the end
+  const lcs = Array.from({ length: given.length + 1 }, () =>
+    new Array<number>(wanted.length + 1).fill(0)
+  );
+  for (let i = given.length - 1; i >= 0; i--) {
+    for (let j = wanted.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(given[i], wanted[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: DiffWord[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < given.length || j < wanted.length) {
+    if (i < given.length && j < wanted.length && same(given[i], wanted[j])) {
+      diff.push({ word: given[i], kind: "same" });
+      i++;
+      j++;
+    } else if (
+      j < wanted.length &&
+      (i === given.length || lcs[i][j + 1] >= lcs[i + 1][j])
+    ) {
+      diff.push({ word: wanted[j], kind: "missing" });
+      j++;
+    } else {
+      diff.push({ word: given[i], kind: "extra" });
+      i++;
+    }
+  }
+  return diff;
+};
@@ -0,0 +1,173 @@
+import {
+  objectStoreAccessor,
+  openDatabase,
+  requestToPromise,
+} from "./indexedDb";
+
+// ===============================================
+// MEDIA ASSET STORE
+// Audio (and later image) bytes live here under content-hash ids, so a
+// lesson only stores the id and the same clip is never kept twice.
+// ===============================================
+
+export interface AssetInfo {
+  id: string;
+  type: string;
+  size: number;
+  /** Refreshed when the same bytes are saved again. */
+  createdAt: string;
+}
+
+/** Where asset bytes are kept. IndexedDB is the default; a server-backed
+ * implementation can be swapped in with `setAssetBackend`. */
+export interface AssetBackend {
+  put(id: string, blob: Blob): Promise<void>;
+  get(id: string): Promise<Blob | undefined>;
+  delete(id: string): Promise<void>;
+  list(): Promise<AssetInfo[]>;
+  /** Refreshes the `createdAt` of asset `id`; false if there is none. */
+  touch(id: string): Promise<boolean>;
+}
+
+// ===============================================
+// INDEXEDDB BACKEND
+// ===============================================
+
+interface StoredAsset extends AssetInfo {
+  blob: Blob;
+}
+
+const ASSET_STORE = "assets";
+
+export const createIndexedDbAssetBackend = (
+  databaseName = "darija-assets"
+): AssetBackend => {
+  const store = objectStoreAccessor(
+    () =>
+      openDatabase(databaseName, (database) =>
+        database.createObjectStore(ASSET_STORE, { keyPath: "id" })
+      ),
+    ASSET_STORE
+  );
+
+  return {
+    async put(id, blob) {
+      const record: StoredAsset = {
+        id,
+        blob,
+        type: blob.type,
+        size: blob.size,
+        createdAt: new Date().toISOString(),
+      };
+      await requestToPromise((await store("readwrite")).put(record));
+    },
+
+    async get(id) {
+      const record: StoredAsset | undefined = await requestToPromise(
+        (await store("readonly")).get(id)
+      );
+      return record?.blob;
+    },
+
+    async delete(id) {
+      await requestToPromise((await store("readwrite")).delete(id));
+    },
+
+    async list() {
+      const records: StoredAsset[] = await requestToPromise(
+        (await store("readonly")).getAll()
+      );
+      return records.map(({ id, type, size, createdAt }) => ({
+        id,
+        type,
+        size,
+        createdAt,
+      }));
+    },
+
+    async touch(id) {
+      const assets = await store("readwrite");
+      const record: StoredAsset | undefined = await requestToPromise(
+        assets.get(id)
+      );
+      if (!record) return false;
+      await requestToPromise(
+        assets.put({ ...record, createdAt: new Date().toISOString() })
+      );
+      return true;
+    },
+  };
+};
+
+// ===============================================
+// STORE API
+// ===============================================
+
+let backend: AssetBackend = createIndexedDbAssetBackend();
+const objectUrls = new Map<string, string>();
+
+export const setAssetBackend = (next: AssetBackend) => {
+  backend = next;
+  objectUrls.forEach((url) => URL.revokeObjectURL(url));
+  objectUrls.clear();
+};
+
+export const hashBlob = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer()
+  );
+  const hex = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+  return `sha256-${hex}`;
+};
+
+/** Stores `blob` and returns its content-hash id. Saving the same bytes
+ * twice returns the same id without writing them again, but restarts the
+ * cleanup grace period as the asset may be used by a new activity. */
+export const saveAsset = async (blob: Blob) => {
+  const id = await hashBlob(blob);
+  if (!(await backend.touch(id))) {
+    await backend.put(id, blob);
+  }
+  return id;
+};
+
+export const getAssetBlob = (id: string) => backend.get(id);
+
+/** Returns a URL the page can play for asset `id`, or null when the asset is
+ * missing. URLs are cached for the lifetime of the page. */
+export const resolveAssetUrl = async (id: string) => {
+  const cached = objectUrls.get(id);
+  if (cached) return cached;
+
+  const blob = await backend.get(id);
+  if (!blob) return null;
+
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(id, url);
+  return url;
+};
+
+// Assets this young are kept even when unreferenced: they may belong to an
+// activity that is still open in the builder and not yet saved.
+const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+/** Deletes every asset not in `referencedIds` (past the grace period).
+ * Returns the number of assets removed. */
+export const deleteOrphanedAssets = async (referencedIds: Set<string>) => {
+  const cutoff = Date.now() - ORPHAN_GRACE_PERIOD_MS;
+  const orphans = (await backend.list()).filter(
+    (asset) =>
+      !referencedIds.has(asset.id) && Date.parse(asset.createdAt) < cutoff
+  );
+
+  for (const asset of orphans) {
+    await backend.delete(asset.id);
+    const url = objectUrls.get(asset.id);
+    if (url) URL.revokeObjectURL(url);
+    objectUrls.delete(asset.id);
+  }
+  return orphans.length;
+};
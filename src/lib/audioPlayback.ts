@@ -0,0 +1,106 @@
+import { useSyncExternalStore } from "react";
+
+// ===============================================
+// PAGE-WIDE AUDIO PLAYBACK
+// Only one clip plays at a time: starting a clip stops whatever was
+// playing before, so every AudioPlayer on the page shares this state.
+// ===============================================
+
+export type PlaybackStatus =
+  "idle" | "loading" | "playing" | "paused" | "error";
+
+export interface PlaybackState {
+  src: string | null;
+  status: PlaybackStatus;
+  rate: number;
+}
+
+export const PLAYBACK_RATES = [1, 0.75, 0.5];
+
+let audio: HTMLAudioElement | null = null;
+let state: PlaybackState = { src: null, status: "idle", rate: 1 };
+const listeners = new Set<() => void>();
+
+const setState = (next: Partial<PlaybackState>) => {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener());
+};
+
+const release = () => {
+  if (!audio) return;
+  audio.onplaying = audio.onpause = audio.onended = null;
+  audio.onwaiting = audio.onerror = null;
+  audio.pause();
+  audio = null;
+};
+
+export const stopPlayback = () => {
+  release();
+  setState({ src: null, status: "idle" });
+};
+
+/**
+ * Plays `src` at `rate`, replacing any clip already playing. Resolves once
+ * playback starts or fails; failures end up in the shared state rather than
+ * being thrown.
+ */
+export const playClip = async (src: string, rate = 1) => {
+  if (audio && state.src === src && state.status !== "error") {
+    // Same clip: resume where it was paused, or replay from the start at
+    // the new speed.
+    const resume = state.status === "paused" && state.rate === rate;
+    audio.playbackRate = rate;
+    if (!resume) audio.currentTime = 0;
+    setState({ rate });
+  } else {
+    release();
+    const element = new Audio(src);
+    element.playbackRate = rate;
+    element.onplaying = () => setState({ status: "playing" });
+    element.onwaiting = () => setState({ status: "loading" });
+    element.onpause = () => {
+      if (!element.ended) setState({ status: "paused" });
+    };
+    element.onended = () => setState({ status: "idle" });
+    element.onerror = () => setState({ status: "error" });
+    audio = element;
+    setState({ src, status: "loading", rate });
+  }
+
+  const element = audio;
+  try {
+    await element.play();
+  } catch (error) {
+    if (audio !== element) return;
+    // pause() before the clip started; the pause handler already ran.
+    if (error instanceof DOMException && error.name === "AbortError") return;
+    // The browser refused to start without a user gesture (autoplay
+    // policy); that is not a broken clip, so leave it ready to tap.
+    const blocked =
+      error instanceof DOMException && error.name === "NotAllowedError";
+    setState({ status: blocked ? "idle" : "error" });
+  }
+};
+
+export const pausePlayback = () => {
+  audio?.pause();
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getState = () => state;
+
+/** Playback state as seen by the player for `src`: idle unless `src` is the
+ * clip currently loaded. */
+export const useClipPlayback = (src: string | null | undefined) => {
+  const current = useSyncExternalStore(subscribe, getState);
+  if (!src || current.src !== src) {
+    return { status: "idle" as PlaybackStatus, rate: 1 };
+  }
+  return { status: current.status, rate: current.rate };
+};
@@ -0,0 +1,122 @@
+// ===============================================
+// RECORDED AUDIO PROCESSING
+// Mono PCM helpers used to clean up teacher recordings before they are
+// stored: trim the silence around the phrase, normalise its peak level and
+// encode it as a WAV file.
+// ===============================================
+
+export interface PcmClip {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+/** Decodes any browser-supported audio blob into a mono clip. */
+export const decodeAudio = async (blob: Blob): Promise<PcmClip> => {
+  // An offline context can decode without a user gesture or audio output.
+  const context = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      samples[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return { samples, sampleRate: buffer.sampleRate };
+};
+
+const peakOf = (samples: Float32Array) => {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  return peak;
+};
+
+/**
+ * Cuts leading and trailing silence. A sample counts as sound when it is
+ * louder than `threshold` (linear, 0..1); `paddingMs` of audio is kept on
+ * either side so word onsets are not clipped. A clip that is silent
+ * throughout is returned unchanged.
+ */
+export const trimSilence = (
+  clip: PcmClip,
+  { threshold = 0.02, paddingMs = 80 } = {}
+): PcmClip => {
+  const { samples, sampleRate } = clip;
+  let first = 0;
+  while (first < samples.length && Math.abs(samples[first]) < threshold) {
+    first++;
+  }
+  if (first === samples.length) return clip;
+
+  let last = samples.length - 1;
+  while (last > first && Math.abs(samples[last]) < threshold) {
+    last--;
+  }
+
+  const padding = Math.round((paddingMs / 1000) * sampleRate);
+  const start = Math.max(0, first - padding);
+  const end = Math.min(samples.length, last + 1 + padding);
+  return { samples: samples.slice(start, end), sampleRate };
+};
+
+/** Scales the clip so its loudest sample reaches `targetPeak` (linear). */
+export const normalizePeak = (clip: PcmClip, targetPeak = 0.9): PcmClip => {
+  const peak = peakOf(clip.samples);
+  if (peak === 0) return clip;
+
+  const gain = targetPeak / peak;
+  return {
+    samples: clip.samples.map((sample) => sample * gain),
+    sampleRate: clip.sampleRate,
+  };
+};
+
+/** Encodes the clip as a 16-bit mono PCM WAV file. */
+export const encodeWav = ({ samples, sampleRate }: PcmClip): Blob => {
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(
+      44 + i * 2,
+      clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff,
+      true
+    );
+  });
+
+  return new Blob([view], { type: "audio/wav" });
+};
+
+/** Peak level (0..1) of each of `bins` equal slices, for drawing. */
+export const waveformPeaks = (samples: Float32Array, bins: number) => {
+  const size = Math.max(1, Math.floor(samples.length / bins));
+  return Array.from({ length: bins }, (_, bin) =>
+    peakOf(samples.subarray(bin * size, (bin + 1) * size))
+  );
+};
+
+export const clipDuration = (clip: PcmClip) =>
+  clip.samples.length / clip.sampleRate;
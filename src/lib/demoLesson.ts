@@ -0,0 +1,72 @@
+import type { Lesson } from './lessonSchema';
+
+// ===============================================
+// DUMMY LESSON DATA (FOR DEMO/PREVIEW)
+// ===============================================
+
+export const DEMO_LESSON_ID = 'demo';
+
+export const DUMMY_LESSON_DATA: Lesson = {
+    title: "Lesson 1: Greetings and Goodbyes",
+    objectives: [
+        "Use greeting and goodbye expressions.",
+        "Correctly use Nta/Nty.",
+    ],
+    introParts: [
+        "Welcome! This lesson covers basic Moroccan Darija greetings and goodbyes.",
+        "🗣️ GramStop: The pronoun 'you' has two versions: Nta (Masculine) and Nty (Feminine)."
+    ],
+    activities: [
+        // --- ACTIVITY 1: Multiple Choice ---
+        {
+            id: 1,
+            type: "multiple-choice",
+            question: { 
+                translation: "What is the correct way to say 'Good morning'?", 
+                audioUrl: "/audio/q_morning.mp3" 
+            },
+            options: [
+                { text: "Msa L5eer", translation: "Good evening", audioUrl: "/audio/msa_l5eer.mp3", isCorrect: false },
+                { text: "Sba7 L5eer", translation: "Good morning", audioUrl: "/audio/sba7_l5eer.mp3", isCorrect: true },
+                { text: "B'slama", translation: "Goodbye", audioUrl: "/audio/bslama.mp3", isCorrect: false },
+            ],
+            feedback: "Sba7 L5eer literally means 'Morning of goodness'."
+        },
+        // --- ACTIVITY 2: Fill-in-the-Blanks with Word Blocks ---
+        {
+            id: 2,
+            type: "fill-in-blanks",
+            question: { 
+                text: "Smeety Alex, o {nty}?", 
+                translation: "How about you? (Addressing a female)", 
+                audioUrl: "/audio/q_blanks.mp3" 
+            }, 
+            wordPool: ["nta", "nty", "Labass", "Smeetk"],
+            feedback: "Remember to use NTY when asking a female.",
+        },
+        // --- ACTIVITY 3: Dialogue / Listening ---
+        {
+            id: 3,
+            type: "dialogue",
+            question: { translation: "Read and listen to the conversation:", audioUrl: null },
+            items: [
+                { text: "Salam!", translation: "Hello!", audioUrl: "/audio/salam.mp3" },
+                { text: "Wa 3alaykum assalam!", translation: "Hello (response)!", audioUrl: "/audio/wa_salam.mp3" },
+                { text: "Keedayr?", translation: "How are you? (Masc)", audioUrl: "/audio/keedayr.mp3" },
+            ],
+            feedback: "This is a typical short greeting exchange."
+        },
+        // --- ACTIVITY 4: Match Image ---
+        {
+            id: 4,
+            type: "match-image",
+            question: { translation: "Match the phrase with the correct emoji:", audioUrl: "/audio/q_match.mp3" },
+            pairs: [
+                { text: "Tsb7 3la 5eer", translation: "Good night", image: "🌃", audioUrl: "/audio/tsb7.mp3", id: 'p1' },
+                { text: "B'slama", translation: "Goodbye", image: "👋", audioUrl: "/audio/bslama.mp3", id: 'p3' },
+                { text: "Msa L5eer", translation: "Good evening", image: "🌇", audioUrl: "/audio/msa_l5eer.mp3", id: 'p2' },
+            ],
+            feedback: "Good use of visual aids!"
+        },
+    ]
+};
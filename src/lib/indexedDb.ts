@@ -0,0 +1,38 @@
+// ===============================================
+// INDEXEDDB HELPERS
+// Shared by the stores that keep their data in IndexedDB, each in a
+// database of its own.
+// ===============================================
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Opens database `name` at version 1; `upgrade` creates its object stores
+ * the first time. */
+export const openDatabase = (
+  name: string,
+  upgrade: (database: IDBDatabase) => void
+) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Returns a function that gives a fresh transaction's object store
+ * `storeName`, opening the database on first use. */
+export const objectStoreAccessor = (
+  open: () => Promise<IDBDatabase>,
+  storeName: string
+) => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  return async (mode: IDBTransactionMode) => {
+    database ??= open();
+    return (await database).transaction(storeName, mode).objectStore(storeName);
+  };
+};
@@ -0,0 +1,51 @@
+import { DEMO_LESSON_ID, DUMMY_LESSON_DATA } from "./demoLesson";
+import { resolveLessonAssets } from "./lessonAssets";
+import { findSavedLesson, listLessons } from "./lessonRepository";
+import { latestVersion, publishedLesson } from "./lessonPublishing";
+import { toLearnerLesson } from "./lessonSchema";
+import type { Lesson, LessonDraft } from "./lessonSchema";
+import { loadProgress } from "./progressStore";
+
+/** `lesson` as published in `version`, assets resolved, or null when it is
+ * not available to learners. */
+const toPlayableLesson = async (
+  lesson: LessonDraft,
+  version = latestVersion(lesson)?.version
+): Promise<Lesson | null> => {
+  if (lesson.status !== "published") return null;
+  const published = publishedLesson(lesson, version);
+  if (!published) return null;
+  const resolved = await resolveLessonAssets(published).catch(() => published);
+  return { ...toLearnerLesson(resolved), version };
+};
+
+/** The lesson a learner plays at `/learn/:lessonId`, assets resolved. A
+ * learner part-way through an older version carries on with it. */
+export const loadLearnerLesson = async (
+  lessonId: string
+): Promise<Lesson | null> => {
+  if (lessonId === DEMO_LESSON_ID) return DUMMY_LESSON_DATA;
+  const savedLesson = await findSavedLesson(lessonId);
+  if (!savedLesson) return null;
+  const progress = loadProgress(lessonId);
+  const pinned = progress?.session.finishedAt
+    ? undefined
+    : progress?.publishedVersion;
+  return (
+    (await toPlayableLesson(savedLesson, pinned)) ??
+    toPlayableLesson(savedLesson)
+  );
+};
+
+/** The demo and the latest version of every published lesson, ready to
+ * play. */
+export const loadAllLearnerLessons = async (): Promise<Lesson[]> => {
+  const { lessons } = await listLessons();
+  const playable = await Promise.all(
+    lessons.map((lesson) => toPlayableLesson(lesson))
+  );
+  return [
+    DUMMY_LESSON_DATA,
+    ...playable.filter((lesson): lesson is Lesson => lesson !== null),
+  ];
+};
@@ -0,0 +1,98 @@
+import { deleteOrphanedAssets, resolveAssetUrl } from "./assetStore";
+import { listRevisions } from "./lessonRevisions";
+import { mapMediaElements, mediaElementsOf } from "./lessonSchema";
+import type { ActivityDraft, AssetFile, LessonDraft } from "./lessonSchema";
+import { collectRecordingAssetIds } from "./progressStore";
+
+/** Every stored file of an activity: element audio and pair pictures. */
+const assetFilesOf = (activity: ActivityDraft): AssetFile[] =>
+  [
+    ...mediaElementsOf(activity).map((element) => element.audioFile),
+    ...activity.pairs.map((pair) => pair.imageFile),
+  ].filter((file): file is AssetFile => !!file);
+
+/** Asset ids referenced by the media elements of `lessons`, their
+ * published versions included. */
+export const collectAssetIds = (lessons: LessonDraft[]) => {
+  const ids = new Set<string>();
+  lessons
+    .flatMap((lesson) => [
+      ...lesson.activities,
+      ...lesson.publishedVersions.flatMap(({ content }) => content.activities),
+    ])
+    .forEach((activity) =>
+      assetFilesOf(activity).forEach((file) => {
+        if (file.assetId) ids.add(file.assetId);
+      })
+    );
+  return ids;
+};
+
+/** Returns a copy of `lesson` with `update` applied to every stored file,
+ * in its published versions too (files without an asset id are left
+ * alone). */
+export const mapAssetFiles = (
+  lesson: LessonDraft,
+  update: (file: AssetFile & { assetId: string }) => AssetFile
+): LessonDraft => {
+  const apply = <T extends AssetFile | null | undefined>(file: T): T =>
+    file?.assetId ? (update({ ...file, assetId: file.assetId }) as T) : file;
+
+  const mapActivity = (activity: ActivityDraft): ActivityDraft => {
+    const mapped = mapMediaElements(activity, (element) => ({
+      ...element,
+      audioFile: apply(element.audioFile),
+    }));
+    return {
+      ...mapped,
+      pairs: mapped.pairs.map((pair) => ({
+        ...pair,
+        imageFile: apply(pair.imageFile),
+      })),
+    };
+  };
+
+  return {
+    ...lesson,
+    activities: lesson.activities.map(mapActivity),
+    publishedVersions: lesson.publishedVersions.map((published) => ({
+      ...published,
+      content: {
+        ...published.content,
+        activities: published.content.activities.map(mapActivity),
+      },
+    })),
+  };
+};
+
+/**
+ * Points every stored file of `lesson` at a usable URL for its asset. Files
+ * whose asset is missing get an empty URL, so the player falls back to the
+ * element's `audioUrl` or the pair's typed-in `image`.
+ */
+export const resolveLessonAssets = async (
+  lesson: LessonDraft
+): Promise<LessonDraft> => {
+  const urls = new Map<string, string>();
+  for (const id of collectAssetIds([lesson])) {
+    urls.set(id, (await resolveAssetUrl(id)) ?? "");
+  }
+
+  return mapAssetFiles(lesson, (file) => ({
+    ...file,
+    url: urls.get(file.assetId) ?? "",
+  }));
+};
+
+/** Removes stored assets that neither `lessons`, a lesson revision nor a
+ * kept speaking recording refers to any more. */
+export const cleanUpLessonAssets = async (lessons: LessonDraft[]) => {
+  const revisions = await listRevisions();
+  return deleteOrphanedAssets(
+    new Set([
+      ...collectAssetIds(lessons),
+      ...collectAssetIds(revisions.map((revision) => revision.lesson)),
+      ...collectRecordingAssetIds(),
+    ])
+  );
+};
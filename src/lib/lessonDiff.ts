@@ -0,0 +1,206 @@
+import type { ActivityDraft, AssetFile, LessonDraft } from "./lessonSchema";
+
+// ===============================================
+// LESSON DIFF
+// What changed between two versions of a lesson, field by field. Values are
+// compared as the text a teacher reads, except that stored files are told
+// apart by asset id: a file re-resolved to a new object URL is no change,
+// but a replacement with the same name is.
+// ===============================================
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export type ActivityChange =
+  | { kind: "added"; activity: ActivityDraft }
+  | { kind: "removed"; activity: ActivityDraft; index: number }
+  | {
+      kind: "changed";
+      before: ActivityDraft;
+      after: ActivityDraft;
+      /** Index of `before` in the older lesson. */
+      index: number;
+      fields: FieldChange[];
+      /** Its place among the activities both versions share moved. */
+      moved: boolean;
+    };
+
+export interface LessonDiff {
+  fields: FieldChange[];
+  activities: ActivityChange[];
+}
+
+/** Lesson fields worth showing; ids, timestamps and activities are not. */
+const LESSON_FIELDS: (keyof LessonDraft)[] = [
+  "title",
+  "description",
+  "level",
+  "objectives",
+  "introParts",
+  "tags",
+  "settings",
+  "status",
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  introParts: "introduction",
+  audioFile: "audio",
+};
+
+/** "timeEstimate" -> "time estimate" */
+export const fieldLabel = (field: string) =>
+  FIELD_LABELS[field] ??
+  field.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+
+const isAssetFile = (value: object): value is AssetFile =>
+  "name" in value && "url" in value;
+
+/**
+ * The readable form of a field value; stored files show by name. With
+ * `identifyFiles`, files also carry their asset id (or URL, for files not
+ * in the asset store), for deciding whether anything changed.
+ */
+const formatValue = (value: unknown, identifyFiles = false): string => {
+  const format = (entry: unknown) => formatValue(entry, identifyFiles);
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) {
+    return value.map(format).filter(Boolean).join(" | ");
+  }
+  if (typeof value !== "object") return String(value);
+  if (isAssetFile(value)) {
+    return identifyFiles
+      ? `📎 ${value.name} <${value.assetId || value.url}>`
+      : `📎 ${value.name}`;
+  }
+
+  // Media elements, options and pairs: their text, then what is attached
+  if ("text" in value) {
+    const element = value as Record<string, unknown>;
+    return [
+      element.isCorrect === true ? "✓" : "",
+      format(element.text),
+      element.translation ? `(${format(element.translation)})` : "",
+      format(element.image),
+      format(element.imageFile),
+      format(element.audioFile),
+      element.audioUrl ? `🔊 ${format(element.audioUrl)}` : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+  }
+  return Object.entries(value)
+    .map(([key, entry]) => `${fieldLabel(key)}: ${format(entry)}`)
+    .join(", ");
+};
+
+const diffFields = <T extends object>(
+  before: T,
+  after: T,
+  fields: (keyof T)[]
+): FieldChange[] =>
+  fields.flatMap((field) => {
+    if (formatValue(before[field], true) === formatValue(after[field], true)) {
+      return [];
+    }
+    const from = formatValue(before[field]);
+    const to = formatValue(after[field]);
+    // Only a file changed, for one with the same name
+    const replaced = from === to ? " (file replaced)" : "";
+    return [{ field: String(field), before: from, after: to + replaced }];
+  });
+
+const activityFields = (before: ActivityDraft, after: ActivityDraft) =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(
+    (field) => field !== "id"
+  ) as (keyof ActivityDraft)[];
+
+/** Ids of `after` outside its longest common subsequence with `before`:
+ * the fewest activities whose moving explains the new order. */
+const movedIds = (before: number[], after: number[]) => {
+  // lengths[i][j]: longest common subsequence of before[i..] and after[j..]
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const kept = new Set<number>();
+  for (let i = 0, j = 0; i < before.length && j < after.length;) {
+    if (before[i] === after[j]) {
+      kept.add(after[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return new Set(after.filter((id) => !kept.has(id)));
+};
+
+/** Changes from `before` to `after`. Activities are matched by id. */
+export const diffLessons = (
+  before: LessonDraft,
+  after: LessonDraft
+): LessonDiff => {
+  const afterIds = new Set(after.activities.map((activity) => activity.id));
+  const beforeById = new Map(
+    before.activities.map((activity, index) => [
+      activity.id,
+      { activity, index },
+    ])
+  );
+
+  // Compare the order of the activities both versions have, so adding or
+  // removing one does not count as moving the rest
+  const moved = movedIds(
+    before.activities
+      .filter((activity) => afterIds.has(activity.id))
+      .map((activity) => activity.id),
+    after.activities
+      .filter((activity) => beforeById.has(activity.id))
+      .map((activity) => activity.id)
+  );
+
+  const activities: ActivityChange[] = [];
+  before.activities.forEach((activity, index) => {
+    if (!afterIds.has(activity.id)) {
+      activities.push({ kind: "removed", activity, index });
+    }
+  });
+  after.activities.forEach((activity) => {
+    const previous = beforeById.get(activity.id);
+    if (!previous) {
+      activities.push({ kind: "added", activity });
+      return;
+    }
+    const fields = diffFields(
+      previous.activity,
+      activity,
+      activityFields(previous.activity, activity)
+    );
+    if (fields.length > 0 || moved.has(activity.id)) {
+      activities.push({
+        kind: "changed",
+        before: previous.activity,
+        after: activity,
+        index: previous.index,
+        fields,
+        moved: moved.has(activity.id),
+      });
+    }
+  });
+
+  return { fields: diffFields(before, after, LESSON_FIELDS), activities };
+};
+
+export const isEmptyDiff = (diff: LessonDiff) =>
+  diff.fields.length === 0 && diff.activities.length === 0;
@@ -0,0 +1,169 @@
+import {
+  parseFillInBlanks,
+  resolveAudioUrl,
+  validateActivity,
+} from "./lessonSchema";
+import type { ActivityDraft, LessonDraft, MediaElement } from "./lessonSchema";
+
+// ===============================================
+// LESSON LINTER
+// Checks a whole lesson before it is published. Errors block publishing
+// (they would break or confuse the player); warnings are worth a look but
+// the lesson plays fine without fixing them.
+// ===============================================
+
+export type LintSeverity = "error" | "warning";
+
+/** The part of the builder where an issue is fixed. */
+export type LintTarget =
+  | { view: "setup"; field: "title" }
+  | { view: "setup"; field: "objectives"; index: number }
+  /** An activity, or the new-activity form when there is no id. */
+  | { view: "builder"; activityId?: number };
+
+export interface LintIssue {
+  severity: LintSeverity;
+  message: string;
+  target: LintTarget;
+}
+
+const hasText = (value: string | undefined) => !!value?.trim();
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+/** Texts that appear more than once, ignoring case and spacing. */
+const duplicatesIn = (texts: string[]) => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  texts.filter(hasText).forEach((text) => {
+    const key = normalize(text);
+    if (seen.has(key)) duplicates.add(text.trim());
+    seen.add(key);
+  });
+  return [...duplicates];
+};
+
+/** The Darija phrases of an activity: what learners read, hear and say. */
+const phrasesOf = (activity: ActivityDraft): MediaElement[] => {
+  switch (activity.type) {
+    case "multiple-choice":
+      return activity.options;
+    case "ordering":
+    case "dialogue":
+      return activity.items;
+    case "speak":
+      return activity.items.slice(0, 1);
+    case "match-image":
+      return activity.pairs;
+    default:
+      return [];
+  }
+};
+
+const lintActivity = (activity: ActivityDraft): Omit<LintIssue, "target">[] => {
+  const issues: Omit<LintIssue, "target">[] = validateActivity(activity).map(
+    (message) => ({ severity: "error", message })
+  );
+  const error = (message: string) =>
+    issues.push({ severity: "error", message });
+  const warning = (message: string) =>
+    issues.push({ severity: "warning", message });
+
+  if (activity.type === "multiple-choice") {
+    duplicatesIn(activity.options.map((option) => option.text)).forEach(
+      (text) => error(`The option "${text}" appears more than once`)
+    );
+  }
+  if (activity.type === "match-image") {
+    duplicatesIn(activity.pairs.map((pair) => pair.text)).forEach((text) =>
+      error(`The phrase "${text}" is in more than one pair`)
+    );
+  }
+  if (activity.type === "fill-in-blanks") {
+    const answers = new Set(
+      parseFillInBlanks(activity.question.text).correctWords.map(normalize)
+    );
+    activity.wordPool
+      .filter((word) => answers.has(normalize(word)))
+      .forEach((word) =>
+        warning(
+          `"${word}" is both an answer and a distractor; the word pool shows it once`
+        )
+      );
+    if (!hasText(activity.question.translation)) {
+      warning("The sentence has no English translation");
+    }
+  }
+
+  const phrases = phrasesOf(activity).filter((phrase) => hasText(phrase.text));
+  const untranslated = phrases.filter(
+    (phrase) => !hasText(phrase.translation)
+  ).length;
+  if (untranslated > 0) {
+    warning(`${untranslated} of ${phrases.length} phrases have no translation`);
+  }
+  // Speaking already requires its model audio
+  const silent = phrases.filter((phrase) => !resolveAudioUrl(phrase)).length;
+  if (activity.type !== "speak" && silent > 0) {
+    warning(`${silent} of ${phrases.length} phrases have no audio`);
+  }
+
+  return issues;
+};
+
+/** Every problem in `lesson`, errors first, each pointing at where it is
+ * fixed. */
+export const lintLesson = (lesson: LessonDraft): LintIssue[] => {
+  const issues: LintIssue[] = [];
+
+  if (!hasText(lesson.title)) {
+    issues.push({
+      severity: "error",
+      message: "The lesson needs a title",
+      target: { view: "setup", field: "title" },
+    });
+  }
+  if (!lesson.objectives.some(hasText)) {
+    issues.push({
+      severity: "warning",
+      message: "The lesson has no learning objectives",
+      target: { view: "setup", field: "objectives", index: 0 },
+    });
+  } else {
+    lesson.objectives.forEach((objective, index) => {
+      if (!hasText(objective)) {
+        issues.push({
+          severity: "warning",
+          message: `Objective ${index + 1} is empty`,
+          target: { view: "setup", field: "objectives", index },
+        });
+      }
+    });
+  }
+  if (lesson.activities.length === 0) {
+    issues.push({
+      severity: "error",
+      message: "The lesson has no activities",
+      target: { view: "builder" },
+    });
+  }
+
+  lesson.activities.forEach((activity, index) => {
+    const name = `Activity ${index + 1} ("${activity.title || "untitled"}")`;
+    lintActivity(activity).forEach(({ severity, message }) =>
+      issues.push({
+        severity,
+        message: `${name}: ${message}`,
+        target: { view: "builder", activityId: activity.id },
+      })
+    );
+  });
+
+  return [
+    ...issues.filter((issue) => issue.severity === "error"),
+    ...issues.filter((issue) => issue.severity === "warning"),
+  ];
+};
+
+export const lintErrors = (issues: LintIssue[]) =>
+  issues.filter((issue) => issue.severity === "error");
@@ -0,0 +1,284 @@
+import {
+  ACTIVITY_TYPES,
+  DEFAULT_LESSON_SETTINGS,
+  LESSON_STATUSES,
+} from "./lessonSchema";
+import type { ActivityType, LessonDraft, LessonStatus } from "./lessonSchema";
+
+// ===============================================
+// LESSON MIGRATIONS
+// Saved lessons carry the schema version they were written in. On load
+// they are brought up to date one step at a time, so changing the draft
+// shape never breaks lessons saved before the change.
+// ===============================================
+
+type RawLesson = Record<string, unknown>;
+type RawRecord = Record<string, unknown>;
+
+interface LessonMigration {
+  /** The version this step produces; it runs on anything older. */
+  version: number;
+  description: string;
+  migrate: (lesson: RawLesson) => RawLesson;
+}
+
+const recordsIn = (value: unknown): RawRecord[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (entry): entry is RawRecord => !!entry && typeof entry === "object"
+      )
+    : [];
+
+const updateActivities = (
+  activities: unknown,
+  update: (activity: RawRecord) => RawRecord
+) =>
+  Array.isArray(activities)
+    ? activities.map((activity: unknown) =>
+        activity && typeof activity === "object"
+          ? update(activity as RawRecord)
+          : activity
+      )
+    : activities;
+
+/** Applies `update` to each activity of a raw lesson, including those of
+ * its published versions; anything that isn't an activity is left for the
+ * shape check to report. */
+const mapActivities = (
+  lesson: RawLesson,
+  update: (activity: RawRecord) => RawRecord
+): RawLesson => ({
+  ...lesson,
+  activities: updateActivities(lesson.activities, update),
+  ...(Array.isArray(lesson.publishedVersions) && {
+    publishedVersions: recordsIn(lesson.publishedVersions).map((version) => {
+      const content = version.content as RawRecord | undefined;
+      return content && typeof content === "object"
+        ? {
+            ...version,
+            content: {
+              ...content,
+              activities: updateActivities(content.activities, update),
+            },
+          }
+        : version;
+    }),
+  }),
+});
+
+/** Applies `update` to every media element of a raw activity. */
+const mapElements = (
+  activity: RawRecord,
+  update: (element: RawRecord) => RawRecord
+): RawRecord => ({
+  ...activity,
+  question:
+    activity.question && typeof activity.question === "object"
+      ? update(activity.question as RawRecord)
+      : activity.question,
+  options: recordsIn(activity.options).map(update),
+  items: recordsIn(activity.items).map(update),
+  pairs: recordsIn(activity.pairs).map(update),
+});
+
+/** Ordered oldest first; each step only has to handle the step before. */
+const LESSON_MIGRATIONS: LessonMigration[] = [
+  {
+    version: 1,
+    description: "Move files saved before the asset store to audioUrl",
+    // Those files only had an object URL (dead after a reload) or a real
+    // URL; a real one becomes the element's typed-in audio URL.
+    migrate: (lesson) =>
+      mapActivities(lesson, (activity) =>
+        mapElements(activity, (element) => {
+          const file = element.audioFile as RawRecord | null | undefined;
+          if (file?.assetId) return element;
+          const url = typeof file?.url === "string" ? file.url : "";
+          return {
+            ...element,
+            audioFile: null,
+            audioUrl: element.audioUrl || (url.startsWith("blob:") ? "" : url),
+          };
+        })
+      ),
+  },
+  {
+    version: 2,
+    description: "Rename fill-in-blanks wordBlocks to wordPool",
+    migrate: (lesson) =>
+      mapActivities(lesson, ({ wordBlocks, ...activity }) => ({
+        ...activity,
+        wordPool: Array.isArray(activity.wordPool)
+          ? activity.wordPool
+          : Array.isArray(wordBlocks)
+            ? wordBlocks
+            : [],
+      })),
+  },
+  {
+    version: 3,
+    description: "Fill in settings and typed-answer fields added since",
+    migrate: (lesson) => ({
+      ...mapActivities(lesson, (activity) => ({
+        ...activity,
+        translateDirection: activity.translateDirection ?? "to-darija",
+        acceptedAnswers: Array.isArray(activity.acceptedAnswers)
+          ? activity.acceptedAnswers
+          : [],
+      })),
+      settings: {
+        ...DEFAULT_LESSON_SETTINGS,
+        ...(lesson.settings as object | undefined),
+      },
+    }),
+  },
+  {
+    version: 4,
+    description: "Replace isSaved/isPublished with a status and versions",
+    // Learners played a published lesson as saved, so that becomes its
+    // first published version.
+    migrate: (lesson) => {
+      const next: RawLesson = { ...lesson };
+      delete next.isSaved;
+      delete next.isPublished;
+      const published = lesson.isPublished === true;
+      return {
+        ...next,
+        status: published ? "published" : "draft",
+        publishedVersions: published
+          ? [
+              {
+                version: 1,
+                publishedAt: lesson.updatedAt ?? new Date().toISOString(),
+                content: {
+                  title: lesson.title,
+                  description: lesson.description,
+                  level: lesson.level,
+                  objectives: lesson.objectives,
+                  introParts: lesson.introParts,
+                  activities: lesson.activities,
+                  tags: lesson.tags,
+                  settings: lesson.settings,
+                },
+              },
+            ]
+          : [],
+      };
+    },
+  },
+];
+
+export const LESSON_SCHEMA_VERSION =
+  LESSON_MIGRATIONS[LESSON_MIGRATIONS.length - 1].version;
+
+// ===============================================
+// RUNNING MIGRATIONS
+// ===============================================
+
+export type MigrationResult =
+  | { lesson: LessonDraft; error?: undefined }
+  | { lesson?: undefined; error: string };
+
+/** The problem that keeps a migrated lesson from loading, or null. */
+const shapeError = (lesson: RawLesson): string | null => {
+  if (typeof lesson.id !== "number") return "it has no id";
+  if (typeof lesson.title !== "string") return "it has no title";
+  if (!LESSON_STATUSES.includes(lesson.status as LessonStatus)) {
+    return `it has an unknown status "${String(lesson.status)}"`;
+  }
+  if (
+    !Array.isArray(lesson.publishedVersions) ||
+    recordsIn(lesson.publishedVersions).some(
+      (version) =>
+        typeof version.version !== "number" ||
+        !version.content ||
+        !Array.isArray((version.content as RawRecord).activities)
+    )
+  ) {
+    return "one of its published versions is unreadable";
+  }
+  if (!Array.isArray(lesson.activities)) return "it has no activity list";
+  const activities = lesson.activities as RawRecord[];
+  if (
+    activities.some((activity) => !activity || typeof activity !== "object")
+  ) {
+    return "one of its activities is not an object";
+  }
+  const unknown = activities.find(
+    (activity) => !ACTIVITY_TYPES.includes(activity.type as ActivityType)
+  );
+  if (unknown)
+    return `it has an activity of unknown type "${String(unknown.type)}"`;
+  if (activities.some((activity) => typeof activity.id !== "number")) {
+    return "one of its activities has no id";
+  }
+  if (
+    activities.some(
+      (activity) => !activity.question || typeof activity.question !== "object"
+    )
+  ) {
+    return "one of its activities has no question";
+  }
+  return null;
+};
+
+/** Brings one stored lesson up to `LESSON_SCHEMA_VERSION`. Never throws. */
+export const migrateLesson = (stored: unknown): MigrationResult => {
+  if (!stored || typeof stored !== "object" || Array.isArray(stored)) {
+    return { error: "it is not a lesson" };
+  }
+  const version = (stored as RawLesson).schemaVersion ?? 0;
+  if (typeof version !== "number") {
+    return { error: "its schema version is not a number" };
+  }
+  if (version > LESSON_SCHEMA_VERSION) {
+    return {
+      error: `it was saved by a newer version of the app (schema ${version})`,
+    };
+  }
+
+  let lesson = stored as RawLesson;
+  for (const step of LESSON_MIGRATIONS) {
+    if (step.version <= version) continue;
+    try {
+      lesson = { ...step.migrate(lesson), schemaVersion: step.version };
+    } catch (error) {
+      return {
+        error: `"${step.description}" failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  const problem = shapeError(lesson);
+  return problem
+    ? { error: problem }
+    : { lesson: lesson as unknown as LessonDraft };
+};
+
+export interface LessonLoadFailure {
+  /** Position in the stored list. */
+  index: number;
+  title: string;
+  error: string;
+}
+
+/** Migrates a stored lesson list, setting aside the lessons that fail. */
+export const migrateLessons = (stored: unknown[]) => {
+  const lessons: LessonDraft[] = [];
+  const failures: LessonLoadFailure[] = [];
+  stored.forEach((entry, index) => {
+    const result = migrateLesson(entry);
+    if (result.lesson) {
+      lessons.push(result.lesson);
+    } else {
+      const title = (entry as RawLesson | null)?.title;
+      failures.push({
+        index,
+        title:
+          typeof title === "string" && title ? title : `Lesson ${index + 1}`,
+        error: result.error,
+      });
+    }
+  });
+  return { lessons, failures };
+};
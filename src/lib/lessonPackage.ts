@@ -0,0 +1,290 @@
+import { getAssetBlob, saveAsset } from "./assetStore";
+import { collectAssetIds, mapAssetFiles } from "./lessonAssets";
+import { migrateLessons } from "./lessonMigrations";
+import { validateActivity } from "./lessonSchema";
+import type { LessonDraft } from "./lessonSchema";
+import { listLessons, putLesson } from "./lessonRepository";
+
+// ===============================================
+// LESSON PACKAGES
+// One downloadable JSON file holding lessons and the audio and pictures
+// they use, so lessons can move between browsers and colleagues.
+// ===============================================
+
+export const LESSON_PACKAGE_FORMAT = "darija-lesson-package";
+
+/** Bump when the package shape changes, and add a step to
+ * `PACKAGE_MIGRATIONS` that upgrades the previous version. */
+export const LESSON_PACKAGE_VERSION = 1;
+
+export interface PackagedAsset {
+  type: string;
+  /** The bytes as a data: URL. */
+  data: string;
+}
+
+export interface LessonPackage {
+  format: typeof LESSON_PACKAGE_FORMAT;
+  version: number;
+  exportedAt: string;
+  lessons: LessonDraft[];
+  /** Keyed by asset id, as referenced from the lessons' files. */
+  assets: Record<string, PackagedAsset>;
+}
+
+// ===============================================
+// EXPORT
+// ===============================================
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/** Bundles `lessons` with every stored file they reference. Object URLs
+ * are dropped: they mean nothing in another browser. */
+export const createLessonPackage = async (
+  lessons: LessonDraft[]
+): Promise<LessonPackage> => {
+  const assets: Record<string, PackagedAsset> = {};
+  for (const id of collectAssetIds(lessons)) {
+    const blob = await getAssetBlob(id);
+    if (blob) assets[id] = { type: blob.type, data: await blobToDataUrl(blob) };
+  }
+
+  return {
+    format: LESSON_PACKAGE_FORMAT,
+    version: LESSON_PACKAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    lessons: lessons.map((lesson) =>
+      mapAssetFiles(lesson, (file) => ({ ...file, url: "" }))
+    ),
+    assets,
+  };
+};
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "lesson";
+
+/** Suggested file name: the lesson title for one lesson, a dated name for
+ * several. */
+export const packageFileName = (lessons: LessonDraft[]) =>
+  lessons.length === 1
+    ? `${slugify(lessons[0].title)}.darija.json`
+    : `darija-lessons-${new Date().toISOString().slice(0, 10)}.darija.json`;
+
+/** Packages `lessons` and hands the file to the browser as a download. */
+export const downloadLessonPackage = async (lessons: LessonDraft[]) => {
+  const lessonPackage = await createLessonPackage(lessons);
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(lessonPackage)], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = packageFileName(lessons);
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// ===============================================
+// MIGRATIONS
+// ===============================================
+
+type RawPackage = Record<string, unknown>;
+
+/** `PACKAGE_MIGRATIONS[n]` upgrades a version `n` package to `n + 1`. */
+const PACKAGE_MIGRATIONS: ((raw: RawPackage) => RawPackage)[] = [
+  // 0: a bare lesson list, as copied out of localStorage, or one lesson.
+  // Its files' bytes were never included.
+  (raw) => ({
+    format: LESSON_PACKAGE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    lessons: raw.lessons,
+    assets: {},
+  }),
+];
+
+/** Reads the version of parsed JSON; older files that predate the package
+ * format are version 0, wrapped as `{ lessons }`. */
+const toRawPackage = (json: unknown): RawPackage | null => {
+  if (Array.isArray(json)) return { version: 0, lessons: json };
+  if (!json || typeof json !== "object") return null;
+  const raw = json as RawPackage;
+  if (raw.format === LESSON_PACKAGE_FORMAT) return raw;
+  return "activities" in raw ? { version: 0, lessons: [raw] } : null;
+};
+
+// ===============================================
+// VALIDATION
+// ===============================================
+
+const isDataUrl = (data: unknown): data is string =>
+  typeof data === "string" && data.startsWith("data:");
+
+export interface PackageCheck {
+  /** Null when `errors` is not empty. */
+  lessonPackage: LessonPackage | null;
+  /** Problems that stop the import. */
+  errors: string[];
+  /** Problems the teacher should know about; the import can go ahead. */
+  warnings: string[];
+}
+
+/** Parses an imported file, upgrading older package versions and older
+ * lesson schemas to the current ones. */
+export const readLessonPackage = (text: string): PackageCheck => {
+  const fail = (error: string): PackageCheck => ({
+    lessonPackage: null,
+    errors: [error],
+    warnings: [],
+  });
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return fail("The file is not valid JSON");
+  }
+
+  let raw = toRawPackage(json);
+  if (!raw) return fail("The file is not a Darija lesson package");
+
+  const version = raw.version;
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    return fail("The package has no schema version");
+  }
+  if (version > LESSON_PACKAGE_VERSION) {
+    return fail(
+      `The package is version ${version}, made by a newer version of the app; this one reads up to version ${LESSON_PACKAGE_VERSION}`
+    );
+  }
+  for (let from = version; from < LESSON_PACKAGE_VERSION; from++) {
+    raw = PACKAGE_MIGRATIONS[from](raw);
+  }
+
+  if (!Array.isArray(raw.lessons) || raw.lessons.length === 0) {
+    return fail("The package contains no lessons");
+  }
+  const { lessons, failures } = migrateLessons(raw.lessons);
+  const errors = failures.map(
+    (failure) => `"${failure.title}" can't be read: ${failure.error}`
+  );
+  const assets = raw.assets;
+  if (!assets || typeof assets !== "object") {
+    errors.push("The package's asset list is missing");
+  } else {
+    // Asset bytes are read with fetch(), which must never reach the network
+    Object.entries(assets).forEach(([id, asset]) => {
+      if (!isDataUrl((asset as Partial<PackagedAsset> | null)?.data)) {
+        errors.push(
+          `The file for asset "${id}" is not embedded in the package`
+        );
+      }
+    });
+  }
+  if (errors.length > 0) return { lessonPackage: null, errors, warnings: [] };
+
+  const lessonPackage = { ...raw, lessons } as unknown as LessonPackage;
+  const ids = lessonPackage.lessons.map((lesson) => lesson.id);
+  if (new Set(ids).size !== ids.length) {
+    return fail("Two lessons in the package share an id");
+  }
+
+  const warnings: string[] = [];
+  if (version < LESSON_PACKAGE_VERSION) {
+    warnings.push(
+      `Upgraded from version ${version} to version ${LESSON_PACKAGE_VERSION}`
+    );
+  }
+  const missingAssets = [...collectAssetIds(lessonPackage.lessons)].filter(
+    (id) => !lessonPackage.assets[id]
+  ).length;
+  if (missingAssets > 0) {
+    warnings.push(
+      `${missingAssets} audio or image file(s) are not in the package; those activities fall back to typed-in URLs`
+    );
+  }
+  lessonPackage.lessons.forEach((lesson) => {
+    const invalid = lesson.activities.filter(
+      (activity) => validateActivity(activity).length > 0
+    ).length;
+    if (invalid > 0) {
+      warnings.push(
+        `"${lesson.title}" has ${invalid} activit${invalid === 1 ? "y" : "ies"} that need fixing in the builder`
+      );
+    }
+  });
+
+  return { lessonPackage, errors: [], warnings };
+};
+
+// ===============================================
+// IMPORT
+// ===============================================
+
+/** What to do with one packaged lesson. "copy" adds it under a new id
+ * next to the saved lesson it collides with; "replace" overwrites it. */
+export type ImportAction = "add" | "copy" | "replace" | "skip";
+
+/** The default action: add new lessons, and never overwrite silently. */
+export const defaultImportAction = (
+  lesson: LessonDraft,
+  savedLessons: LessonDraft[]
+): ImportAction =>
+  savedLessons.some((saved) => saved.id === lesson.id) ? "copy" : "add";
+
+const dataUrlToBlob = async (dataUrl: string) => {
+  if (!isDataUrl(dataUrl)) throw new Error("Asset data is not a data: URL");
+  return (await fetch(dataUrl)).blob();
+};
+
+/**
+ * Saves the package's assets and its lessons according to `actions` (by
+ * lesson id). Assets are stored under their content hash, which renames any
+ * whose packaged id didn't match their bytes. Returns the lessons added.
+ */
+export const importLessonPackage = async (
+  lessonPackage: LessonPackage,
+  actions: Record<number, ImportAction>
+): Promise<LessonDraft[]> => {
+  const chosen = lessonPackage.lessons.filter(
+    (lesson) => (actions[lesson.id] ?? "skip") !== "skip"
+  );
+
+  const assetIds = new Map<string, string>();
+  for (const id of collectAssetIds(chosen)) {
+    const asset = lessonPackage.assets[id];
+    if (asset)
+      assetIds.set(id, await saveAsset(await dataUrlToBlob(asset.data)));
+  }
+
+  const { lessons: savedLessons } = await listLessons();
+  const now = new Date().toISOString();
+  let nextId = Math.max(Date.now(), ...savedLessons.map((l) => l.id + 1));
+
+  const imported = chosen.map((lesson) => {
+    const copy = actions[lesson.id] === "copy";
+    return {
+      ...mapAssetFiles(lesson, (file) => ({
+        ...file,
+        assetId: assetIds.get(file.assetId) ?? file.assetId,
+        url: "",
+      })),
+      id: copy ? nextId++ : lesson.id,
+      title: copy ? `${lesson.title} (imported)` : lesson.title,
+      updatedAt: now,
+    };
+  });
+
+  for (const lesson of imported) {
+    await putLesson(lesson);
+  }
+  return imported;
+};
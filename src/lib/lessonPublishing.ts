@@ -0,0 +1,89 @@
+import { diffLessons, isEmptyDiff } from "./lessonDiff";
+import type {
+  LessonContent,
+  LessonDraft,
+  PublishedVersion,
+} from "./lessonSchema";
+
+// ===============================================
+// PUBLISHING
+// The teacher edits a draft; publishing freezes a copy of it as a new
+// version, which is what learners play. A learner who started a version
+// keeps playing it until they finish, even after a newer one is published.
+// ===============================================
+
+/** The fields of `lesson` a published version freezes. */
+export const lessonContent = ({
+  title,
+  description,
+  level,
+  objectives,
+  introParts,
+  activities,
+  tags,
+  settings,
+}: LessonDraft): LessonContent => ({
+  title,
+  description,
+  level,
+  objectives,
+  introParts,
+  activities,
+  tags,
+  settings,
+});
+
+export const latestVersion = (
+  lesson: LessonDraft
+): PublishedVersion | undefined =>
+  lesson.publishedVersions[lesson.publishedVersions.length - 1];
+
+/** Published versions always kept, the new one included. Progress on
+ * other devices is not visible here, so their learners' versions can only
+ * be kept by keeping the recent ones. */
+const KEPT_VERSIONS = 5;
+
+/**
+ * `lesson` with its draft frozen as a new published version. Older versions
+ * are dropped once they are not among the last `KEPT_VERSIONS`, unless a
+ * learner on this device is part-way through one (`pinnedVersions`).
+ */
+export const publishLesson = (
+  lesson: LessonDraft,
+  pinnedVersions: number[],
+  publishedAt: string
+): LessonDraft => {
+  const version = (latestVersion(lesson)?.version ?? 0) + 1;
+  const recentFrom = lesson.publishedVersions.length - (KEPT_VERSIONS - 1);
+  return {
+    ...lesson,
+    status: "published",
+    publishedVersions: [
+      ...lesson.publishedVersions.filter(
+        (published, index) =>
+          index >= recentFrom || pinnedVersions.includes(published.version)
+      ),
+      { version, publishedAt, content: lessonContent(lesson) },
+    ],
+    updatedAt: publishedAt,
+  };
+};
+
+/** `lesson` as published in `version` (the latest if omitted), or
+ * undefined if there is no such version. */
+export const publishedLesson = (
+  lesson: LessonDraft,
+  version?: number
+): LessonDraft | undefined => {
+  const published =
+    version === undefined
+      ? latestVersion(lesson)
+      : lesson.publishedVersions.find((entry) => entry.version === version);
+  return published && { ...lesson, ...published.content };
+};
+
+/** Whether the draft has edits learners don't see yet. */
+export const hasUnpublishedChanges = (lesson: LessonDraft) => {
+  const published = publishedLesson(lesson);
+  return !!published && !isEmptyDiff(diffLessons(published, lesson));
+};
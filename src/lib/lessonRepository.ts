@@ -0,0 +1,251 @@
+import {
+  objectStoreAccessor,
+  openDatabase,
+  requestToPromise,
+} from "./indexedDb";
+import {
+  LESSON_SCHEMA_VERSION,
+  migrateLesson,
+  migrateLessons,
+} from "./lessonMigrations";
+import type { LessonLoadFailure } from "./lessonMigrations";
+import type { LessonDraft } from "./lessonSchema";
+
+// ===============================================
+// LESSON REPOSITORY
+// Saved lessons, one record each. Records are stored as saved and brought
+// up to the current schema as they are read, so a lesson that fails to
+// migrate is reported but never overwritten.
+// ===============================================
+
+export interface LessonListing {
+  lessons: LessonDraft[];
+  failures: LessonLoadFailure[];
+}
+
+/** Where lessons are kept. IndexedDB is the default; `setLessonRepository`
+ * swaps in another, such as the in-memory one. */
+export interface LessonRepository {
+  list(): Promise<LessonListing>;
+  get(id: number): Promise<LessonDraft | undefined>;
+  put(lesson: LessonDraft): Promise<void>;
+  delete(id: number): Promise<void>;
+  /** Lessons whose title, description, tags, objectives or activity titles
+   * contain `query`, ignoring case. */
+  search(query: string): Promise<LessonDraft[]>;
+}
+
+/** Raw record storage under lesson keys; the repository adds migrations
+ * and search on top. */
+interface RecordStore {
+  getAll(): Promise<unknown[]>;
+  get(key: number): Promise<unknown>;
+  put(key: number, record: unknown): Promise<void>;
+  delete(key: number): Promise<void>;
+}
+
+const searchableText = (lesson: LessonDraft) =>
+  [
+    lesson.title,
+    lesson.description,
+    ...lesson.tags,
+    ...lesson.objectives,
+    ...lesson.activities.map((activity) => activity.title),
+  ]
+    .join("\n")
+    .toLowerCase();
+
+const repositoryOver = (records: RecordStore): LessonRepository => {
+  const list = async () => migrateLessons(await records.getAll());
+
+  return {
+    list,
+
+    async get(id) {
+      return migrateLesson(await records.get(id)).lesson;
+    },
+
+    async put(lesson) {
+      await records.put(lesson.id, {
+        ...lesson,
+        schemaVersion: LESSON_SCHEMA_VERSION,
+      });
+    },
+
+    async delete(id) {
+      await records.delete(id);
+    },
+
+    async search(query) {
+      const needle = query.trim().toLowerCase();
+      const { lessons } = await list();
+      return lessons.filter((lesson) =>
+        searchableText(lesson).includes(needle)
+      );
+    },
+  };
+};
+
+// ===============================================
+// INDEXEDDB REPOSITORY
+// ===============================================
+
+/** Where lessons lived before this repository: one JSON array, read in
+ * once when the database is created. */
+export const LESSONS_STORAGE_KEY = "darija-lessons";
+
+const LESSON_STORE = "lessons";
+
+/** Keys for localStorage lessons without a usable id, kept so they are
+ * still reported rather than dropped. */
+const LEGACY_KEY_BASE = -1;
+
+const openLessonDatabase = async (name: string) => {
+  let importedLegacy = false;
+  const database = await openDatabase(name, (created) => {
+    const store = created.createObjectStore(LESSON_STORE);
+    let legacy: unknown = [];
+    try {
+      legacy = JSON.parse(localStorage.getItem(LESSONS_STORAGE_KEY) || "[]");
+    } catch {
+      // Unreadable legacy data stays in localStorage untouched
+      return;
+    }
+    if (!Array.isArray(legacy)) return;
+    legacy.forEach((record, index) => {
+      const id = (record as { id?: unknown } | null)?.id;
+      store.put(record, typeof id === "number" ? id : LEGACY_KEY_BASE - index);
+    });
+    importedLegacy = true;
+  });
+  if (importedLegacy) localStorage.removeItem(LESSONS_STORAGE_KEY);
+  return database;
+};
+
+export const createIndexedDbLessonRepository = (
+  databaseName = "darija-lessons"
+): LessonRepository => {
+  const store = objectStoreAccessor(
+    () => openLessonDatabase(databaseName),
+    LESSON_STORE
+  );
+
+  /** Resolves once the write is committed; a full disk fails the
+   * transaction rather than the request, so wait for that. */
+  const write = async (change: (store: IDBObjectStore) => void) => {
+    const objectStore = await store("readwrite");
+    const transaction = objectStore.transaction;
+    change(objectStore);
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return repositoryOver({
+    async getAll() {
+      return requestToPromise((await store("readonly")).getAll());
+    },
+    async get(key) {
+      return requestToPromise((await store("readonly")).get(key));
+    },
+    put: (key, record) => write((objectStore) => objectStore.put(record, key)),
+    delete: (key) => write((objectStore) => objectStore.delete(key)),
+  });
+};
+
+// ===============================================
+// IN-MEMORY REPOSITORY
+// ===============================================
+
+/** Keeps lessons for the life of the page; for tests, and for browsers
+ * without IndexedDB. Records are copied in and out like a real store. */
+export const createMemoryLessonRepository = (
+  initial: LessonDraft[] = []
+): LessonRepository => {
+  const records = new Map<number, string>(
+    initial.map((lesson) => [lesson.id, JSON.stringify(lesson)])
+  );
+  const read = (json: string | undefined) =>
+    json === undefined ? undefined : JSON.parse(json);
+
+  return repositoryOver({
+    async getAll() {
+      return [...records.values()].map(read);
+    },
+    async get(key) {
+      return read(records.get(key));
+    },
+    async put(key, record) {
+      records.set(key, JSON.stringify(record));
+    },
+    async delete(key) {
+      records.delete(key);
+    },
+  });
+};
+
+// ===============================================
+// REPOSITORY API
+// ===============================================
+
+let repository: LessonRepository =
+  typeof indexedDB === "undefined"
+    ? createMemoryLessonRepository()
+    : createIndexedDbLessonRepository();
+
+export const getLessonRepository = () => repository;
+
+export const setLessonRepository = (next: LessonRepository) => {
+  repository = next;
+};
+
+export const listLessons = () => repository.list();
+
+export const getLesson = (id: number) => repository.get(id);
+
+/** The lesson for a URL segment, or undefined. */
+export const findSavedLesson = (lessonId: string) =>
+  /^-?\d+$/.test(lessonId)
+    ? repository.get(Number(lessonId))
+    : Promise.resolve(undefined);
+
+export const putLesson = async (lesson: LessonDraft) => {
+  await repository.put(lesson);
+  notifyLessonChanged(lesson.id);
+};
+
+export const deleteLesson = async (id: number) => {
+  await repository.delete(id);
+  notifyLessonChanged(id);
+};
+
+export const searchLessons = (query: string) => repository.search(query);
+
+// ===============================================
+// CHANGE NOTIFICATIONS
+// Lets an open editor notice that its lesson was rewritten elsewhere: from
+// the lesson list, by an import or by sync.
+// ===============================================
+
+const changeListeners = new Set<(id: number) => void>();
+
+/** Calls `listener` with the id of every lesson written or deleted.
+ * Returns the function that unsubscribes it. */
+export const subscribeLessonChanges = (listener: (id: number) => void) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+/** For writers that bypass `putLesson` and `deleteLesson`. */
+export const notifyLessonChanged = (id: number) =>
+  changeListeners.forEach((listener) => listener(id));
+
+/** Whether a failed write was the browser refusing more storage. */
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === "QuotaExceededError" ||
+    error.name === "NS_ERROR_DOM_QUOTA_REACHED");
@@ -0,0 +1,165 @@
+import {
+  objectStoreAccessor,
+  openDatabase,
+  requestToPromise,
+} from "./indexedDb";
+import { LESSON_SCHEMA_VERSION, migrateLesson } from "./lessonMigrations";
+import type { LessonDraft } from "./lessonSchema";
+
+// ===============================================
+// LESSON REVISIONS
+// Snapshots of a lesson, kept next to the one copy autosave overwrites:
+// named ones the teacher takes, and one each time the lesson is published.
+// Snapshots are stored as taken and migrated as they are read, like saved
+// lessons.
+// ===============================================
+
+export type RevisionKind = "named" | "publish";
+
+export interface LessonRevision {
+  id: number;
+  lessonId: number;
+  name: string;
+  kind: RevisionKind;
+  createdAt: string;
+  lesson: LessonDraft;
+}
+
+/** A revision as stored; `lesson` may be from an older schema. */
+export interface StoredRevision extends Omit<LessonRevision, "id" | "lesson"> {
+  id?: number;
+  lesson: unknown;
+}
+
+/** Where revisions are kept. IndexedDB is the default; another can be
+ * swapped in with `setRevisionBackend`. */
+export interface RevisionBackend {
+  /** Stores a new revision and returns its id. */
+  add(revision: StoredRevision): Promise<number>;
+  /** Revisions of one lesson, or of every lesson. */
+  list(lessonId?: number): Promise<StoredRevision[]>;
+  delete(id: number): Promise<void>;
+}
+
+// ===============================================
+// INDEXEDDB BACKEND
+// ===============================================
+
+const REVISION_STORE = "revisions";
+const LESSON_INDEX = "lessonId";
+
+export const createIndexedDbRevisionBackend = (
+  databaseName = "darija-revisions"
+): RevisionBackend => {
+  const store = objectStoreAccessor(
+    () =>
+      openDatabase(databaseName, (database) =>
+        database
+          .createObjectStore(REVISION_STORE, {
+            keyPath: "id",
+            autoIncrement: true,
+          })
+          .createIndex(LESSON_INDEX, "lessonId")
+      ),
+    REVISION_STORE
+  );
+
+  return {
+    async add(revision) {
+      return Number(
+        await requestToPromise((await store("readwrite")).add(revision))
+      );
+    },
+
+    async list(lessonId) {
+      const objectStore = await store("readonly");
+      return requestToPromise(
+        lessonId === undefined
+          ? objectStore.getAll()
+          : objectStore.index(LESSON_INDEX).getAll(lessonId)
+      );
+    },
+
+    async delete(id) {
+      await requestToPromise((await store("readwrite")).delete(id));
+    },
+  };
+};
+
+// ===============================================
+// IN-MEMORY BACKEND
+// ===============================================
+
+/** Keeps revisions for the life of the page; for tests, and for browsers
+ * without IndexedDB. */
+export const createMemoryRevisionBackend = (): RevisionBackend => {
+  const records = new Map<number, string>();
+  let nextId = 1;
+
+  return {
+    async add(revision) {
+      const id = nextId++;
+      records.set(id, JSON.stringify({ ...revision, id }));
+      return id;
+    },
+    async list(lessonId) {
+      return [...records.values()]
+        .map((json) => JSON.parse(json) as StoredRevision)
+        .filter(
+          (revision) => lessonId === undefined || revision.lessonId === lessonId
+        );
+    },
+    async delete(id) {
+      records.delete(id);
+    },
+  };
+};
+
+// ===============================================
+// REVISIONS API
+// ===============================================
+
+let backend: RevisionBackend =
+  typeof indexedDB === "undefined"
+    ? createMemoryRevisionBackend()
+    : createIndexedDbRevisionBackend();
+
+export const setRevisionBackend = (next: RevisionBackend) => {
+  backend = next;
+};
+
+/** Snapshots `lesson` under `name`. */
+export const saveRevision = async (
+  lesson: LessonDraft,
+  name: string,
+  kind: RevisionKind = "named"
+): Promise<LessonRevision> => {
+  const revision = {
+    lessonId: lesson.id,
+    name,
+    kind,
+    createdAt: new Date().toISOString(),
+    lesson: { ...lesson, schemaVersion: LESSON_SCHEMA_VERSION },
+  };
+  const id = await backend.add(revision);
+  return { ...revision, id };
+};
+
+/** Revisions of `lessonId` (of every lesson if omitted), newest first.
+ * Snapshots that no longer migrate are left out. */
+export const listRevisions = async (
+  lessonId?: number
+): Promise<LessonRevision[]> => {
+  const revisions: LessonRevision[] = [];
+  for (const stored of await backend.list(lessonId)) {
+    const { lesson, error } = migrateLesson(stored.lesson);
+    if (!lesson || stored.id === undefined) {
+      console.error(`Revision "${stored.name}" could not be read: ${error}`);
+      continue;
+    }
+    revisions.push({ ...stored, id: stored.id, lesson });
+  }
+  return revisions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteRevision = (id: number) => backend.delete(id);
@@ -0,0 +1,614 @@
+import type { DarijaScript } from "./transliteration";
+
+// ===============================================
+// LESSON SCHEMA
+// Shared by the TeacherDashboard (authoring) and the
+// LearnerLessonView (playback).
+// ===============================================
+
+export type ActivityType =
+  | "multiple-choice"
+  | "fill-in-blanks"
+  | "ordering"
+  | "dialogue"
+  | "match-image"
+  | "translate"
+  | "dictation"
+  | "speak";
+
+export const ACTIVITY_TYPES: ActivityType[] = [
+  "multiple-choice",
+  "fill-in-blanks",
+  "ordering",
+  "dialogue",
+  "match-image",
+  "translate",
+  "dictation",
+  "speak",
+];
+
+export type Difficulty = "beginner" | "intermediate" | "advanced";
+
+/** Which way a translate activity goes. */
+export type TranslateDirection = "to-darija" | "to-english";
+
+// ===============================================
+// LEARNER-FACING LESSON (what the player renders)
+// ===============================================
+
+export interface Phrase {
+  text: string;
+  translation: string;
+  audioUrl: string | null;
+}
+
+/** The activity prompt. `translation` is the English instruction shown to
+ * the learner; `text` carries Darija content such as a blanks template. */
+export interface ActivityPrompt {
+  text?: string;
+  translation: string;
+  audioUrl: string | null;
+}
+
+export interface ChoiceOption extends Phrase {
+  isCorrect: boolean;
+}
+
+export interface MatchPair extends Phrase {
+  id: string;
+  image: string;
+}
+
+interface ActivityBase<T extends ActivityType> {
+  id: number;
+  type: T;
+  question: ActivityPrompt;
+  feedback?: string;
+}
+
+export interface MultipleChoiceActivity extends ActivityBase<"multiple-choice"> {
+  options: ChoiceOption[];
+}
+
+export interface FillInBlanksActivity extends ActivityBase<"fill-in-blanks"> {
+  question: ActivityPrompt & { text: string };
+  /** Correct words and distractors, in no particular order. */
+  wordPool: string[];
+}
+
+export interface OrderingActivity extends ActivityBase<"ordering"> {
+  /** Items in their correct order. */
+  items: Phrase[];
+}
+
+export interface DialogueActivity extends ActivityBase<"dialogue"> {
+  items: Phrase[];
+}
+
+export interface MatchImageActivity extends ActivityBase<"match-image"> {
+  pairs: MatchPair[];
+}
+
+export interface TranslateActivity extends ActivityBase<"translate"> {
+  /** `text` is the sentence to translate. */
+  question: ActivityPrompt & { text: string };
+  direction: TranslateDirection;
+  /** Accepted translations, the model answer first. */
+  acceptedAnswers: string[];
+}
+
+export interface DictationActivity extends ActivityBase<"dictation"> {
+  /** `audioUrl` is the clip the learner transcribes. */
+  question: ActivityPrompt & { audioUrl: string };
+  /** Accepted transcripts, the usual spelling first. */
+  acceptedAnswers: string[];
+}
+
+export interface SpeakActivity extends ActivityBase<"speak"> {
+  /** What the learner says; its audio is the model pronunciation. */
+  phrase: Phrase;
+}
+
+export type Activity =
+  | MultipleChoiceActivity
+  | FillInBlanksActivity
+  | OrderingActivity
+  | DialogueActivity
+  | MatchImageActivity
+  | TranslateActivity
+  | DictationActivity
+  | SpeakActivity;
+
+/** How the player treats wrong answers and shows Darija text. */
+export interface LessonSettings {
+  /** Extra tries allowed right after a wrong answer. */
+  maxRetries: number;
+  /** Play activities that were still wrong once more at the end. */
+  requeueMistakes: boolean;
+  /** Script for Darija text; content is authored in Arabizi. */
+  script: DarijaScript;
+}
+
+export const DEFAULT_LESSON_SETTINGS: LessonSettings = {
+  maxRetries: 1,
+  requeueMistakes: true,
+  script: "latin",
+};
+
+export interface Lesson {
+  id?: number;
+  /** The published version being played; missing for the demo and the
+   * teacher's preview. */
+  version?: number;
+  title: string;
+  objectives: string[];
+  introParts: string[];
+  activities: Activity[];
+  settings?: LessonSettings;
+}
+
+// ===============================================
+// AUTHORING DRAFTS (what the dashboard edits)
+// ===============================================
+
+/** An uploaded or recorded file (audio or image) kept in the asset store. */
+export interface AssetFile {
+  name: string;
+  /** Content-hash id in the asset store. Files saved before the store
+   * existed have none. */
+  assetId?: string;
+  /** Usable URL. Object URLs do not survive a reload, so this is
+   * re-resolved from `assetId` whenever a lesson is loaded. */
+  url: string;
+}
+
+export interface MediaElement {
+  id: number;
+  text: string;
+  translation: string;
+  audioFile: AssetFile | null;
+  audioUrl: string;
+}
+
+export type OptionDraft = MediaElement & { isCorrect: boolean };
+export type PairDraft = MediaElement & {
+  /** Emoji or image URL typed by the teacher. */
+  image: string;
+  /** Uploaded picture; shown instead of `image` when present. */
+  imageFile?: AssetFile | null;
+};
+
+/** The builder keeps the fields of every activity type on one record so that
+ * switching type in the form never loses the shape; `toLearnerActivity`
+ * picks out the fields that matter for `type`. */
+export interface ActivityDraft {
+  id: number;
+  type: ActivityType;
+  title: string;
+  description: string;
+  question: MediaElement;
+  options: OptionDraft[];
+  /** Ordering and dialogue lines; for speak, `items[0]` is the phrase to
+   * say with its model audio. */
+  items: MediaElement[];
+  pairs: PairDraft[];
+  /** Distractor words for the fill-in-blanks pool; the correct words come
+   * from the `{word}` markers in `question.text`. Was `wordBlocks` before
+   * schema version 2. */
+  wordPool: string[];
+  /** Translate: `question.text` is the sentence to translate. */
+  translateDirection: TranslateDirection;
+  /** Translate and dictation: accepted answers, the model answer first. */
+  acceptedAnswers: string[];
+  difficulty: Difficulty;
+  timeEstimate: number;
+}
+
+export interface LessonDraft {
+  id: number;
+  /** Shape version the lesson was saved in; see lessonMigrations. */
+  schemaVersion: number;
+  title: string;
+  description: string;
+  level: Difficulty;
+  objectives: string[];
+  introParts: string[];
+  activities: ActivityDraft[];
+  tags: string[];
+  /** Missing on lessons saved before retries were configurable. */
+  settings?: LessonSettings;
+  /** Learners only ever play published versions, never the draft. Was the
+   * `isSaved`/`isPublished` flags before schema version 4. */
+  status: LessonStatus;
+  /** Oldest first. The most recent few are kept, and older ones only while
+   * a learner is part-way through one (see `publishLesson`). */
+  publishedVersions: PublishedVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type LessonStatus = "draft" | "published" | "archived";
+
+export const LESSON_STATUSES: LessonStatus[] = [
+  "draft",
+  "published",
+  "archived",
+];
+
+/** What a published version freezes: everything learners see. */
+export type LessonContent = Pick<
+  LessonDraft,
+  | "title"
+  | "description"
+  | "level"
+  | "objectives"
+  | "introParts"
+  | "activities"
+  | "tags"
+  | "settings"
+>;
+
+/** A lesson as it was published; never edited afterwards. */
+export interface PublishedVersion {
+  /** 1 for the first publish, counting up. */
+  version: number;
+  publishedAt: string;
+  content: LessonContent;
+}
+
+/** Every media element of an activity draft, in form order. */
+export const mediaElementsOf = (activity: ActivityDraft): MediaElement[] => [
+  activity.question,
+  ...activity.options,
+  ...activity.items,
+  ...activity.pairs,
+];
+
+/** Returns a copy of `activity` with `update` applied to each media element. */
+export const mapMediaElements = (
+  activity: ActivityDraft,
+  update: <T extends MediaElement>(element: T) => T
+): ActivityDraft => ({
+  ...activity,
+  question: update(activity.question),
+  options: activity.options.map(update),
+  items: activity.items.map(update),
+  pairs: activity.pairs.map(update),
+});
+
+// ===============================================
+// FILL-IN-BLANKS TEMPLATES
+// ===============================================
+
+export type SentencePart =
+  | { text: string; blank?: undefined }
+  | {
+      blank: number;
+      /** The usual spelling. */
+      correct: string;
+      /** Every spelling the teacher accepts, usual one first. */
+      accepted: string[];
+      text?: undefined;
+    };
+
+// Helper to parse the Fill-in-the-Blanks text template (e.g., "Shno {smeetk}?").
+// Alternate spellings go in the same braces: "o {nty|nti}?"
+export const parseFillInBlanks = (template: string | undefined) => {
+  if (!template) return { sentenceTemplate: [], correctWords: [] };
+  const parts = template.split(/(\{.*?\})/g).filter((p) => p.length > 0);
+  const sentenceTemplate: SentencePart[] = [];
+  let blankIndex = 0;
+  const correctWords: string[] = [];
+
+  parts.forEach((part) => {
+    if (part.startsWith("{") && part.endsWith("}")) {
+      const accepted = part
+        .substring(1, part.length - 1)
+        .split("|")
+        .map((word) => word.trim())
+        .filter((word) => word.length > 0);
+      const word = accepted[0] ?? "";
+      sentenceTemplate.push({ blank: blankIndex, correct: word, accepted });
+      correctWords.push(word);
+      blankIndex++;
+    } else {
+      sentenceTemplate.push({ text: part });
+    }
+  });
+
+  return { sentenceTemplate, correctWords };
+};
+
+/** Whether every { in a template is closed before the next one opens. */
+const hasBalancedBraces = (template: string) => {
+  let open = false;
+  for (const char of template) {
+    if (char === "{") {
+      if (open) return false;
+      open = true;
+    } else if (char === "}") {
+      if (!open) return false;
+      open = false;
+    }
+  }
+  return !open;
+};
+
+/** The template as a plain sentence, blanks filled with the usual spelling. */
+export const fillInSentence = (template: string) =>
+  parseFillInBlanks(template)
+    .sentenceTemplate.map((part) => part.text ?? part.correct)
+    .join("");
+
+// ===============================================
+// VALIDATION
+// ===============================================
+
+const hasText = (value: unknown): boolean =>
+  typeof value === "string" && value.trim().length > 0;
+
+const listOf = <T>(value: T[] | undefined): T[] =>
+  Array.isArray(value) ? value : [];
+
+/**
+ * Checks an activity draft before it is saved to a lesson. Works on
+ * anything that came out of storage, so every field is treated as possibly
+ * missing. Returns human-readable errors; an empty list means valid.
+ */
+export const validateActivity = (activity: ActivityDraft): string[] => {
+  const errors: string[] = [];
+
+  if (!ACTIVITY_TYPES.includes(activity.type)) {
+    errors.push(`Unknown activity type "${activity.type}"`);
+    return errors;
+  }
+
+  if (!hasText(activity.title)) {
+    errors.push("Activity title is required");
+  }
+
+  if (!hasText(activity.question?.text)) {
+    errors.push("Question text is required");
+  }
+
+  switch (activity.type) {
+    case "multiple-choice": {
+      const options = listOf(activity.options);
+      const validOptions = options.filter((opt) => hasText(opt.text));
+      if (validOptions.length < 2) {
+        errors.push("At least 2 options are required");
+      }
+      const correctCount = validOptions.filter((opt) => opt.isCorrect).length;
+      if (correctCount === 0) {
+        errors.push("One option must be marked as correct");
+      } else if (correctCount > 1) {
+        errors.push("Only one option can be marked as correct");
+      }
+      break;
+    }
+
+    case "ordering":
+    case "dialogue": {
+      const items = listOf(activity.items).filter((item) => hasText(item.text));
+      if (items.length < 2) {
+        errors.push("At least 2 items are required");
+      }
+      break;
+    }
+
+    case "match-image": {
+      const pairs = listOf(activity.pairs);
+      if (pairs.length < 2) {
+        errors.push("At least 2 pairs are required");
+      }
+      if (
+        pairs.some(
+          (pair) =>
+            !hasText(pair.text) || (!hasText(pair.image) && !pair.imageFile)
+        )
+      ) {
+        errors.push("Every pair needs a phrase and an image");
+      }
+      break;
+    }
+
+    case "translate": {
+      const answers = listOf(activity.acceptedAnswers).filter(hasText);
+      if (answers.length === 0) {
+        errors.push("At least one accepted answer is required");
+      }
+      if (
+        activity.translateDirection !== "to-darija" &&
+        activity.translateDirection !== "to-english"
+      ) {
+        errors.push("Choose which language the learner translates into");
+      }
+      break;
+    }
+
+    case "dictation": {
+      if (!resolveAudioUrl(activity.question)) {
+        errors.push("Dictation needs an audio clip to transcribe");
+      }
+      if (listOf(activity.acceptedAnswers).filter(hasText).length === 0) {
+        errors.push("The transcript of the clip is required");
+      }
+      break;
+    }
+
+    case "speak": {
+      const [phrase] = listOf(activity.items);
+      if (!hasText(phrase?.text)) {
+        errors.push("Enter the Darija phrase the learner should say");
+      } else if (!resolveAudioUrl(phrase)) {
+        errors.push("Add model audio for the phrase");
+      }
+      break;
+    }
+
+    case "fill-in-blanks": {
+      const { correctWords } = parseFillInBlanks(activity.question?.text);
+      if (!hasBalancedBraces(activity.question?.text ?? "")) {
+        errors.push("Every { needs a matching }, and blanks can't be nested");
+      } else if (correctWords.length === 0) {
+        errors.push("Sentence must contain blanks marked with {word}");
+      } else if (!correctWords.every(hasText)) {
+        errors.push("Every blank needs a word inside its {}");
+      }
+      // The word pool shows each word once, so a second blank with the same
+      // answer could never be filled (compared as the linter does, ignoring
+      // case and spacing)
+      const answers = correctWords.map((word) => word.trim().toLowerCase());
+      const repeated = correctWords.find(
+        (word, index) =>
+          hasText(word) && answers.indexOf(answers[index]) !== index
+      );
+      if (repeated) {
+        errors.push(`Two blanks have the answer "${repeated.trim()}"`);
+      }
+      break;
+    }
+  }
+
+  return errors;
+};
+
+// ===============================================
+// DRAFT -> LEARNER ADAPTER
+// ===============================================
+
+/** Picks the playable URL for a media element: an uploaded file wins over a
+ * typed-in path. */
+export const resolveAudioUrl = (
+  element: Pick<MediaElement, "audioFile" | "audioUrl"> | undefined
+): string | null => element?.audioFile?.url || element?.audioUrl || null;
+
+/** Whether a pair's `image` is a picture URL rather than an emoji. */
+export const isImageUrl = (image: string) =>
+  /^(https?:|data:|blob:|\/)/.test(image.trim());
+
+const toPhrase = (element: MediaElement): Phrase => ({
+  text: element.text,
+  translation: element.translation,
+  audioUrl: resolveAudioUrl(element),
+});
+
+const unique = (words: string[]) => Array.from(new Set(words));
+
+const acceptedAnswersOf = (draft: ActivityDraft) =>
+  listOf(draft.acceptedAnswers)
+    .map((answer) => answer.trim())
+    .filter(hasText);
+
+/**
+ * Converts an activity authored in the dashboard into the shape the
+ * LearnerLessonView plays. The builder's question input stores the English
+ * instruction in `question.text` (or the blanks template, for
+ * fill-in-blanks); the player shows `question.translation`.
+ */
+export const toLearnerActivity = (draft: ActivityDraft): Activity => {
+  const question = draft.question;
+  const audioUrl = resolveAudioUrl(question);
+  const prompt: ActivityPrompt = {
+    translation: question.text.trim() || question.translation,
+    audioUrl,
+  };
+  const base = {
+    id: draft.id,
+    feedback: draft.description || undefined,
+  };
+
+  switch (draft.type) {
+    case "multiple-choice":
+      return {
+        ...base,
+        type: draft.type,
+        question: prompt,
+        options: draft.options
+          .filter((opt) => hasText(opt.text))
+          .map((opt) => ({ ...toPhrase(opt), isCorrect: opt.isCorrect })),
+      };
+
+    case "fill-in-blanks": {
+      const { correctWords } = parseFillInBlanks(question.text);
+      return {
+        ...base,
+        type: draft.type,
+        question: {
+          text: question.text,
+          translation: question.translation,
+          audioUrl,
+        },
+        wordPool: unique([...correctWords, ...draft.wordPool]),
+      };
+    }
+
+    case "ordering":
+    case "dialogue":
+      return {
+        ...base,
+        type: draft.type,
+        question: prompt,
+        items: draft.items.filter((item) => hasText(item.text)).map(toPhrase),
+      };
+
+    case "match-image":
+      return {
+        ...base,
+        type: draft.type,
+        question: prompt,
+        pairs: draft.pairs.map((pair, index) => ({
+          ...toPhrase(pair),
+          id: `pair-${index}`,
+          image: pair.imageFile?.url || pair.image,
+        })),
+      };
+
+    case "translate": {
+      const direction = draft.translateDirection ?? "to-darija";
+      return {
+        ...base,
+        type: draft.type,
+        question: {
+          text: question.text.trim(),
+          translation:
+            direction === "to-darija"
+              ? "Translate into Darija:"
+              : "Translate into English:",
+          audioUrl,
+        },
+        direction,
+        acceptedAnswers: acceptedAnswersOf(draft),
+      };
+    }
+
+    case "dictation":
+      return {
+        ...base,
+        type: draft.type,
+        question: { ...prompt, audioUrl: audioUrl ?? "" },
+        acceptedAnswers: acceptedAnswersOf(draft),
+      };
+
+    case "speak": {
+      const [phrase] = draft.items;
+      return {
+        ...base,
+        type: draft.type,
+        question: prompt,
+        phrase: phrase
+          ? toPhrase(phrase)
+          : { text: "", translation: "", audioUrl: null },
+      };
+    }
+  }
+};
+
+export const toLearnerLesson = (draft: LessonDraft): Lesson => ({
+  id: draft.id,
+  title: draft.title,
+  objectives: draft.objectives.filter(hasText),
+  introParts: draft.introParts.filter(hasText),
+  activities: draft.activities.map(toLearnerActivity),
+  settings: { ...DEFAULT_LESSON_SETTINGS, ...draft.settings },
+});
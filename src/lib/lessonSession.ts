@@ -0,0 +1,135 @@
+import type { Activity, ActivityType, Lesson } from "./lessonSchema";
+
+// ===============================================
+// LESSON SESSION
+// One learner's run through a lesson: the order activities are played in
+// (mistakes are re-queued at the end) and every answer checked.
+// ===============================================
+
+export interface AttemptRecord {
+  activityId: number;
+  type: ActivityType;
+  correct: boolean;
+  /** What the learner answered, in words. */
+  answer: string;
+  /** The expected answer, in words. */
+  expected: string;
+  durationMs: number;
+  at: string;
+}
+
+export interface LessonSession {
+  /** Activity indices in play order; re-queued activities are appended. */
+  queue: number[];
+  attempts: AttemptRecord[];
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+/** Reading and self-rated speaking: played and recorded, but not scored. */
+const UNGRADED_TYPES: ActivityType[] = ["dialogue", "speak"];
+
+export const isGraded = (activity: Pick<Activity, "type">) =>
+  !UNGRADED_TYPES.includes(activity.type);
+
+export const createSession = (lesson: Lesson): LessonSession => ({
+  queue: lesson.activities.map((_, index) => index),
+  attempts: [],
+  startedAt: new Date().toISOString(),
+  finishedAt: null,
+});
+
+export const recordAttempt = (
+  session: LessonSession,
+  attempt: Omit<AttemptRecord, "at">
+): LessonSession => ({
+  ...session,
+  attempts: [...session.attempts, { ...attempt, at: new Date().toISOString() }],
+});
+
+/** Appends `activityIndex` to the end of the queue, once per activity. */
+export const requeueActivity = (
+  session: LessonSession,
+  activityIndex: number
+): LessonSession => {
+  const timesQueued = session.queue.filter((i) => i === activityIndex).length;
+  if (timesQueued > 1) return session;
+  return { ...session, queue: [...session.queue, activityIndex] };
+};
+
+export const finishSession = (session: LessonSession): LessonSession =>
+  session.finishedAt
+    ? session
+    : { ...session, finishedAt: new Date().toISOString() };
+
+// ===============================================
+// SUMMARY
+// ===============================================
+
+export interface TypeAccuracy {
+  type: ActivityType;
+  correct: number;
+  attempts: number;
+}
+
+export interface Mistake {
+  activityId: number;
+  prompt: string;
+  answer: string;
+  expected: string;
+}
+
+export interface SessionSummary {
+  /** Graded activities answered correctly on the first attempt. */
+  score: number;
+  maxScore: number;
+  accuracyByType: TypeAccuracy[];
+  timeSpentMs: number;
+  mistakes: Mistake[];
+}
+
+export const summarizeSession = (
+  lesson: Lesson,
+  session: LessonSession
+): SessionSummary => {
+  const graded = lesson.activities.filter(isGraded);
+  const gradedAttempts = session.attempts.filter(isGraded);
+
+  const score = graded.filter(
+    (activity) =>
+      gradedAttempts.find((attempt) => attempt.activityId === activity.id)
+        ?.correct
+  ).length;
+
+  const accuracyByType: TypeAccuracy[] = [];
+  gradedAttempts.forEach((attempt) => {
+    let entry = accuracyByType.find((e) => e.type === attempt.type);
+    if (!entry) {
+      entry = { type: attempt.type, correct: 0, attempts: 0 };
+      accuracyByType.push(entry);
+    }
+    entry.attempts++;
+    if (attempt.correct) entry.correct++;
+  });
+
+  const mistakes = gradedAttempts
+    .filter((attempt) => !attempt.correct)
+    .map((attempt) => ({
+      activityId: attempt.activityId,
+      prompt:
+        lesson.activities.find((a) => a.id === attempt.activityId)?.question
+          .translation ?? "",
+      answer: attempt.answer,
+      expected: attempt.expected,
+    }));
+
+  const end = session.finishedAt ? Date.parse(session.finishedAt) : Date.now();
+
+  return {
+    score,
+    maxScore: graded.length,
+    accuracyByType,
+    timeSpentMs: Math.max(0, end - Date.parse(session.startedAt)),
+    mistakes,
+  };
+};
@@ -0,0 +1,481 @@
+import { useSyncExternalStore } from "react";
+import { getAssetBlob, saveAsset } from "./assetStore";
+import { collectAssetIds, mapAssetFiles } from "./lessonAssets";
+import { migrateLessons } from "./lessonMigrations";
+import {
+  getLessonRepository,
+  notifyLessonChanged,
+  setLessonRepository,
+} from "./lessonRepository";
+import type { LessonRepository } from "./lessonRepository";
+import type { LessonDraft } from "./lessonSchema";
+
+// ===============================================
+// LESSON SYNC
+// Shares lessons with a team server (API in mock-server/README.md). Edits
+// are saved locally first and queued; the queue is pushed whenever the
+// server can be reached. Every push names the `updatedAt` this browser
+// last saw on the server, so a lesson a colleague changed in the meantime
+// comes back as a conflict instead of being overwritten.
+// ===============================================
+
+/** Outcome of a lesson write. On conflict, the server's copy, or null if
+ * the server deleted it. */
+export type PushResult =
+  { ok: true } | { ok: false; conflict: LessonDraft | null };
+
+export interface SyncClient {
+  listLessons(): Promise<LessonDraft[]>;
+  putLesson(
+    lesson: LessonDraft,
+    baseUpdatedAt: string | null
+  ): Promise<PushResult>;
+  deleteLesson(id: number, baseUpdatedAt: string | null): Promise<PushResult>;
+  hasAsset(id: string): Promise<boolean>;
+  putAsset(id: string, blob: Blob): Promise<void>;
+  getAsset(id: string): Promise<Blob | undefined>;
+}
+
+// ===============================================
+// REST CLIENT
+// ===============================================
+
+const expectOk = (response: Response) => {
+  if (!response.ok) {
+    throw new Error(
+      `Server answered ${response.status} ${response.statusText}`
+    );
+  }
+  return response;
+};
+
+/** Talks to the API at `baseUrl`, e.g. "/api" or "https://host/api". */
+export const createRestSyncClient = (baseUrl: string): SyncClient => {
+  const url = (path: string) => `${baseUrl.replace(/\/$/, "")}${path}`;
+
+  const sendLesson = async (
+    method: "PUT" | "DELETE",
+    id: number,
+    body: object
+  ): Promise<PushResult> => {
+    const response = await fetch(url(`/lessons/${id}`), {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (response.status === 409) {
+      const { lesson } = await response.json();
+      return { ok: false, conflict: lesson ?? null };
+    }
+    expectOk(response);
+    return { ok: true };
+  };
+
+  return {
+    async listLessons() {
+      const response = expectOk(await fetch(url("/lessons")));
+      return (await response.json()).lessons;
+    },
+
+    putLesson: (lesson, baseUpdatedAt) =>
+      sendLesson("PUT", lesson.id, { lesson, baseUpdatedAt }),
+
+    deleteLesson: (id, baseUpdatedAt) =>
+      sendLesson("DELETE", id, { baseUpdatedAt }),
+
+    async hasAsset(id) {
+      const response = await fetch(url(`/assets/${id}`), { method: "HEAD" });
+      if (response.status === 404) return false;
+      expectOk(response);
+      return true;
+    },
+
+    async putAsset(id, blob) {
+      expectOk(
+        await fetch(url(`/assets/${id}`), {
+          method: "PUT",
+          headers: { "Content-Type": blob.type || "application/octet-stream" },
+          body: blob,
+        })
+      );
+    },
+
+    async getAsset(id) {
+      const response = await fetch(url(`/assets/${id}`));
+      if (response.status === 404) return undefined;
+      return expectOk(response).blob();
+    },
+  };
+};
+
+// ===============================================
+// SYNC STATE
+// Kept in localStorage so queued edits survive a reload while offline.
+// ===============================================
+
+const QUEUE_KEY = "darija-sync-queue";
+const BASE_KEY = "darija-sync-base";
+const CONFLICTS_KEY = "darija-sync-conflicts";
+
+/** The latest local change to a lesson; `seq` tells a change made during
+ * a push apart from the one being pushed. */
+interface QueuedChange {
+  change: "put" | "delete";
+  seq: number;
+}
+
+export interface SyncConflict {
+  lessonId: number;
+  title: string;
+  /** The server's copy, or null when it was deleted there. */
+  server: LessonDraft | null;
+  detectedAt: string;
+}
+
+export type SyncState = "idle" | "syncing" | "offline" | "error";
+
+export interface SyncStatus {
+  state: SyncState;
+  /** Lessons with changes waiting to be pushed. */
+  pending: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+  error: string | null;
+}
+
+/** `fallback` when the key is unset or unreadable: bad sync state must not
+ * stop the app from starting. */
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || "null") ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) =>
+  localStorage.setItem(key, JSON.stringify(value));
+
+const loadQueue = () => readJson<Record<number, QueuedChange>>(QUEUE_KEY, {});
+/** Server `updatedAt` of each lesson when this browser last synced it. */
+const loadBase = () => readJson<Record<number, string>>(BASE_KEY, {});
+const loadConflicts = () => readJson<SyncConflict[]>(CONFLICTS_KEY, []);
+
+const setBase = (lessonId: number, updatedAt: string | null) => {
+  const base = loadBase();
+  if (updatedAt === null) delete base[lessonId];
+  else base[lessonId] = updatedAt;
+  writeJson(BASE_KEY, base);
+};
+
+// ===============================================
+// STATUS (for useSyncStatus)
+// ===============================================
+
+/** Null while sync is off. */
+let status: SyncStatus | null = null;
+const listeners = new Set<() => void>();
+
+const updateStatus = (patch: Partial<SyncStatus>) => {
+  if (!status) return;
+  status = {
+    ...status,
+    pending: Object.keys(loadQueue()).length,
+    conflicts: loadConflicts(),
+    ...patch,
+  };
+  listeners.forEach((listener) => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** The sync status, or null when no sync server is configured. */
+export const useSyncStatus = () =>
+  useSyncExternalStore(subscribe, () => status);
+
+// ===============================================
+// PUSH AND PULL
+// ===============================================
+
+let local: LessonRepository | null = null;
+let client: SyncClient | null = null;
+let seq = Date.now();
+
+const enqueue = (lessonId: number, change: QueuedChange["change"]) => {
+  const queue = loadQueue();
+  queue[lessonId] = { change, seq: seq++ };
+  writeJson(QUEUE_KEY, queue);
+};
+
+/** Drops a queued change, unless a newer one replaced it meanwhile. */
+const dequeue = (lessonId: number, pushed: QueuedChange) => {
+  const queue = loadQueue();
+  if (queue[lessonId]?.seq !== pushed.seq) return;
+  delete queue[lessonId];
+  writeJson(QUEUE_KEY, queue);
+};
+
+const addConflict = (
+  lessonId: number,
+  title: string,
+  server: LessonDraft | null
+) =>
+  writeJson(CONFLICTS_KEY, [
+    ...loadConflicts().filter((conflict) => conflict.lessonId !== lessonId),
+    { lessonId, title, server, detectedAt: new Date().toISOString() },
+  ]);
+
+const removeConflict = (lessonId: number) =>
+  writeJson(
+    CONFLICTS_KEY,
+    loadConflicts().filter((conflict) => conflict.lessonId !== lessonId)
+  );
+
+const hasConflict = (lessonId: number) =>
+  loadConflicts().some((conflict) => conflict.lessonId === lessonId);
+
+/** Object URLs mean nothing on the server or in another browser. */
+const withoutLocalUrls = (lesson: LessonDraft) =>
+  mapAssetFiles(lesson, (file) => ({ ...file, url: "" }));
+
+const pushChange = async (lessonId: number, queued: QueuedChange) => {
+  if (!local || !client) return;
+  const base = loadBase()[lessonId] ?? null;
+
+  if (queued.change === "delete") {
+    const result = await client.deleteLesson(lessonId, base);
+    if (result.ok) {
+      setBase(lessonId, null);
+    } else if (result.conflict) {
+      addConflict(lessonId, result.conflict.title, result.conflict);
+    }
+    dequeue(lessonId, queued);
+    return;
+  }
+
+  const lesson = await local.get(lessonId);
+  if (!lesson) {
+    dequeue(lessonId, queued);
+    return;
+  }
+  for (const assetId of collectAssetIds([lesson])) {
+    if (await client.hasAsset(assetId)) continue;
+    const blob = await getAssetBlob(assetId);
+    if (blob) await client.putAsset(assetId, blob);
+  }
+  const result = await client.putLesson(withoutLocalUrls(lesson), base);
+  if (result.ok) {
+    setBase(lessonId, lesson.updatedAt);
+  } else {
+    addConflict(lessonId, lesson.title, result.conflict);
+  }
+  dequeue(lessonId, queued);
+};
+
+const pushQueue = async () => {
+  const queue = loadQueue();
+  for (const [id, queued] of Object.entries(queue)) {
+    const lessonId = Number(id);
+    // Conflicted lessons wait for the teacher to pick a version
+    if (!hasConflict(lessonId)) await pushChange(lessonId, queued);
+    updateStatus({});
+  }
+};
+
+const downloadMissingAssets = async (lesson: LessonDraft) => {
+  if (!client) return;
+  for (const assetId of collectAssetIds([lesson])) {
+    if (await getAssetBlob(assetId)) continue;
+    const blob = await client.getAsset(assetId);
+    if (blob) await saveAsset(blob);
+  }
+};
+
+const pullLessons = async () => {
+  if (!local || !client) return;
+  const { lessons: serverLessons } = migrateLessons(await client.listLessons());
+  const queue = loadQueue();
+  const base = loadBase();
+  const busy = (id: number) => id in queue || hasConflict(id);
+
+  for (const server of serverLessons) {
+    if (busy(server.id)) continue;
+    const mine = await local.get(server.id);
+    if (mine?.updatedAt === server.updatedAt) {
+      setBase(server.id, server.updatedAt);
+    } else if (!mine || mine.updatedAt === base[server.id]) {
+      await downloadMissingAssets(server);
+      await local.put(server);
+      setBase(server.id, server.updatedAt);
+      notifyLessonChanged(server.id);
+    } else {
+      // Both sides changed and this browser never synced the local edit
+      addConflict(server.id, mine.title, server);
+    }
+  }
+
+  const onServer = new Set(serverLessons.map((lesson) => lesson.id));
+  const { lessons } = await local.list();
+  for (const lesson of lessons) {
+    if (onServer.has(lesson.id) || busy(lesson.id)) continue;
+    if (base[lesson.id] !== undefined) {
+      // Synced before and gone from the server: a colleague deleted it
+      await local.delete(lesson.id);
+      setBase(lesson.id, null);
+      notifyLessonChanged(lesson.id);
+    } else {
+      // Never uploaded, e.g. written before sync was turned on
+      enqueue(lesson.id, "put");
+    }
+  }
+};
+
+const isOffline = (error: unknown) =>
+  !navigator.onLine || error instanceof TypeError;
+
+let running: Promise<void> | null = null;
+let rerun: { pull: boolean } | null = null;
+
+/**
+ * Pushes queued changes and, with `pull`, brings in the server's. Calls
+ * made while a sync is running are folded into one more run after it.
+ */
+export const syncLessons = (pull = true): Promise<void> => {
+  if (!status) return Promise.resolve();
+  if (running) {
+    rerun = { pull: pull || !!rerun?.pull };
+    return running;
+  }
+
+  running = (async () => {
+    if (!navigator.onLine) {
+      updateStatus({ state: "offline" });
+      return;
+    }
+    updateStatus({ state: "syncing" });
+    try {
+      await pushQueue();
+      if (pull) {
+        await pullLessons();
+        await pushQueue();
+      }
+      updateStatus({
+        state: "idle",
+        error: null,
+        lastSyncedAt: pull ? new Date().toISOString() : status?.lastSyncedAt,
+      });
+    } catch (error) {
+      console.error("Lesson sync failed:", error);
+      updateStatus(
+        isOffline(error)
+          ? { state: "offline" }
+          : {
+              state: "error",
+              error: error instanceof Error ? error.message : String(error),
+            }
+      );
+    }
+  })().finally(() => {
+    running = null;
+    const next = rerun;
+    rerun = null;
+    if (next) void syncLessons(next.pull);
+  });
+  return running;
+};
+
+// ===============================================
+// SYNCED REPOSITORY
+// ===============================================
+
+/** Reads from `localRepository`; writes go there too and are queued for
+ * the server. */
+const createSyncedLessonRepository = (
+  localRepository: LessonRepository
+): LessonRepository => ({
+  list: () => localRepository.list(),
+  get: (id) => localRepository.get(id),
+  search: (query) => localRepository.search(query),
+
+  async put(lesson) {
+    await localRepository.put(lesson);
+    enqueue(lesson.id, "put");
+    void syncLessons(false);
+  },
+
+  async delete(id) {
+    await localRepository.delete(id);
+    enqueue(id, "delete");
+    void syncLessons(false);
+  },
+});
+
+/** How often to look for colleagues' changes while the page is open. */
+const PULL_INTERVAL_MS = 60 * 1000;
+
+/** Turns on sync with the server at `baseUrl`, behind the current lesson
+ * repository. */
+export const startLessonSync = (baseUrl: string, syncClient?: SyncClient) => {
+  if (status) return;
+  local = getLessonRepository();
+  client = syncClient ?? createRestSyncClient(baseUrl);
+  setLessonRepository(createSyncedLessonRepository(local));
+  status = {
+    state: "idle",
+    pending: 0,
+    conflicts: [],
+    lastSyncedAt: null,
+    error: null,
+  };
+  updateStatus({});
+
+  window.addEventListener("online", () => void syncLessons());
+  window.addEventListener("offline", () => updateStatus({ state: "offline" }));
+  window.setInterval(() => void syncLessons(), PULL_INTERVAL_MS);
+  void syncLessons();
+};
+
+// ===============================================
+// CONFLICT RESOLUTION
+// ===============================================
+
+/** Resolves a conflict in favour of this browser's copy: it is pushed over
+ * the server's (or re-created, if the server deleted it). */
+export const keepLocalVersion = async (lessonId: number) => {
+  const conflict = loadConflicts().find((entry) => entry.lessonId === lessonId);
+  if (!conflict || !local) return;
+  setBase(lessonId, conflict.server?.updatedAt ?? null);
+  removeConflict(lessonId);
+  if (await local.get(lessonId)) enqueue(lessonId, "put");
+  else enqueue(lessonId, "delete");
+  await syncLessons(false);
+};
+
+/** Resolves a conflict in favour of the server's copy, dropping local
+ * changes to the lesson. */
+export const acceptServerVersion = async (lessonId: number) => {
+  const conflict = loadConflicts().find((entry) => entry.lessonId === lessonId);
+  if (!conflict || !local) return;
+  const queue = loadQueue();
+  delete queue[lessonId];
+  writeJson(QUEUE_KEY, queue);
+
+  if (conflict.server) {
+    await downloadMissingAssets(conflict.server).catch((error) =>
+      console.error("Downloading lesson files failed:", error)
+    );
+    await local.put(conflict.server);
+    setBase(lessonId, conflict.server.updatedAt);
+  } else {
+    await local.delete(lessonId);
+    setBase(lessonId, null);
+  }
+  removeConflict(lessonId);
+  notifyLessonChanged(lessonId);
+  updateStatus({});
+};
@@ -0,0 +1,170 @@
+import type { Lesson } from "./lessonSchema";
+import type { LessonSession } from "./lessonSession";
+
+// ===============================================
+// LEARNER PROGRESS
+// Where each learner is in each lesson, kept in localStorage so a refresh or
+// a later visit can pick up where they left off.
+// ===============================================
+
+export const PROGRESS_STORAGE_KEY = "darija-progress";
+const LEARNER_ID_KEY = "darija-learner-id";
+
+export interface LessonProgress {
+  learnerId: string;
+  lessonId: string;
+  /** Activity ids when the run started; a lesson edited since can't resume. */
+  activityIds: number[];
+  /** Published version the run started on; the learner stays on it until
+   * they finish. Missing for the demo and for runs saved before versions. */
+  publishedVersion?: number;
+  /** Step the learner is on: 0 is the introduction. */
+  step: number;
+  session: LessonSession;
+  updatedAt: string;
+  /** Last time the learner finished the lesson; kept across later runs. */
+  completedAt: string | null;
+  /** Speaking attempts, kept across runs for the teacher to score. Missing
+   * on progress saved before speaking activities existed. */
+  recordings?: SpeakingRecording[];
+}
+
+export type SelfRating = "needs-work" | "close" | "nailed-it";
+
+export const SELF_RATINGS: { value: SelfRating; label: string }[] = [
+  { value: "needs-work", label: "😕 Needs work" },
+  { value: "close", label: "🙂 Close" },
+  { value: "nailed-it", label: "😀 Nailed it" },
+];
+
+export interface SpeakingRecording {
+  activityId: number;
+  /** The learner's take in the asset store. */
+  assetId: string;
+  recordedAt: string;
+  selfRating: SelfRating;
+  /** 1 to 5, once a teacher has listened. */
+  teacherScore: number | null;
+  scoredAt: string | null;
+}
+
+export type ProgressStatus = "not-started" | "in-progress" | "completed";
+
+/** Identifies the learner on this device; created on first use. */
+export const getLearnerId = (): string => {
+  let learnerId = localStorage.getItem(LEARNER_ID_KEY);
+  if (!learnerId) {
+    learnerId = `learner-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    localStorage.setItem(LEARNER_ID_KEY, learnerId);
+  }
+  return learnerId;
+};
+
+export const loadAllProgress = (): LessonProgress[] => {
+  try {
+    const entries = JSON.parse(
+      localStorage.getItem(PROGRESS_STORAGE_KEY) || "[]"
+    );
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    // Unreadable progress is treated as none rather than breaking the page
+    return [];
+  }
+};
+
+export const loadProgress = (
+  lessonId: string,
+  learnerId = getLearnerId()
+): LessonProgress | undefined =>
+  loadAllProgress().find(
+    (entry) => entry.lessonId === lessonId && entry.learnerId === learnerId
+  );
+
+export const saveProgress = (progress: LessonProgress) => {
+  const entries = loadAllProgress().filter(
+    (entry) =>
+      entry.lessonId !== progress.lessonId ||
+      entry.learnerId !== progress.learnerId
+  );
+  entries.push(progress);
+  localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(entries));
+};
+
+export const progressStatus = (
+  progress: LessonProgress | undefined
+): ProgressStatus => {
+  if (!progress) return "not-started";
+  if (progress.completedAt) return "completed";
+  return progress.step > 0 || progress.session.attempts.length > 0
+    ? "in-progress"
+    : "not-started";
+};
+
+/** Published versions of `lessonId` that a learner on this device is
+ * part-way through. */
+export const pinnedVersions = (lessonId: string): number[] =>
+  loadAllProgress().flatMap((entry) =>
+    entry.lessonId === lessonId &&
+    !entry.session.finishedAt &&
+    entry.publishedVersion !== undefined
+      ? [entry.publishedVersion]
+      : []
+  );
+
+/** An unfinished run of the same activities, past the introduction. */
+export const canResume = (
+  progress: LessonProgress | undefined,
+  lesson: Lesson
+): progress is LessonProgress =>
+  !!progress &&
+  !progress.session.finishedAt &&
+  progress.step > 0 &&
+  progress.activityIds.length === lesson.activities.length &&
+  progress.activityIds.every((id, i) => lesson.activities[i].id === id);
+
+// ===============================================
+// SPEAKING RECORDINGS
+// ===============================================
+
+const updateProgress = (
+  lessonId: string,
+  learnerId: string,
+  update: (progress: LessonProgress) => LessonProgress
+) => {
+  const progress = loadProgress(lessonId, learnerId);
+  if (progress) saveProgress(update(progress));
+};
+
+/** Keeps a speaking attempt with the learner's progress in the lesson. */
+export const saveRecording = (
+  lessonId: string,
+  recording: SpeakingRecording,
+  learnerId = getLearnerId()
+) =>
+  updateProgress(lessonId, learnerId, (progress) => ({
+    ...progress,
+    recordings: [...(progress.recordings ?? []), recording],
+  }));
+
+export const scoreRecording = (
+  lessonId: string,
+  learnerId: string,
+  assetId: string,
+  teacherScore: number
+) =>
+  updateProgress(lessonId, learnerId, (progress) => ({
+    ...progress,
+    recordings: (progress.recordings ?? []).map((recording) =>
+      recording.assetId === assetId
+        ? { ...recording, teacherScore, scoredAt: new Date().toISOString() }
+        : recording
+    ),
+  }));
+
+/** Asset ids of every kept recording, so asset clean-up leaves them alone. */
+export const collectRecordingAssetIds = () =>
+  new Set(
+    loadAllProgress().flatMap((progress) =>
+      (progress.recordings ?? []).map((recording) => recording.assetId)
+    )
+  );
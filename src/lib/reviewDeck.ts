@@ -0,0 +1,261 @@
+import { isGraded } from "./lessonSession";
+import type { LessonSession } from "./lessonSession";
+import { fillInSentence } from "./lessonSchema";
+import type { Activity, Lesson, Phrase } from "./lessonSchema";
+import { getLearnerId } from "./progressStore";
+
+// ===============================================
+// REVIEW DECK
+// Flashcards for every Darija phrase a learner has met in a lesson,
+// scheduled with SM-2 so each one comes back just before it is forgotten.
+// ===============================================
+
+export const REVIEW_STORAGE_KEY = "darija-review-deck";
+
+/** Cards in one day's review session, oldest due first. */
+export const DAILY_REVIEW_LIMIT = 20;
+
+export type CardDirection =
+  "darija-english" | "english-darija" | "audio-meaning";
+
+export const CARD_DIRECTIONS: CardDirection[] = [
+  "darija-english",
+  "english-darija",
+  "audio-meaning",
+];
+
+export interface ReviewCard {
+  /** Phrase and direction; the same phrase in two lessons is one card. */
+  id: string;
+  learnerId: string;
+  direction: CardDirection;
+  phrase: Phrase;
+  /** SM-2 ease factor, never below 1.3. */
+  easeFactor: number;
+  /** Days until the next review. */
+  interval: number;
+  /** Successful reviews in a row. */
+  repetitions: number;
+  dueAt: string;
+  lastReviewedAt: string | null;
+}
+
+/** SM-2 answer quality: 0 is a blackout, 5 is instant recall. */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===============================================
+// VOCABULARY
+// ===============================================
+
+const phraseKey = (phrase: Phrase) => phrase.text.trim().toLowerCase();
+
+const isCardable = (phrase: Phrase) =>
+  phrase.text.trim() !== "" && phrase.translation.trim() !== "";
+
+/** The Darija phrases an activity teaches. */
+export const phrasesOf = (activity: Activity): Phrase[] => {
+  switch (activity.type) {
+    case "multiple-choice":
+      return activity.options.filter(isCardable);
+    case "dialogue":
+      return activity.items.filter(isCardable);
+    case "match-image":
+      return activity.pairs.filter(isCardable);
+    case "fill-in-blanks": {
+      // The whole sentence with its blanks filled in
+      const sentence = {
+        text: fillInSentence(activity.question.text),
+        translation: activity.question.translation,
+        audioUrl: activity.question.audioUrl,
+      };
+      return isCardable(sentence) ? [sentence] : [];
+    }
+    case "translate": {
+      const [model = ""] = activity.acceptedAnswers;
+      const source = activity.question.text;
+      const phrase =
+        activity.direction === "to-darija"
+          ? { text: model, translation: source, audioUrl: null }
+          : {
+              text: source,
+              translation: model,
+              audioUrl: activity.question.audioUrl,
+            };
+      return isCardable(phrase) ? [phrase] : [];
+    }
+    default:
+      return [];
+  }
+};
+
+const newCards = (phrase: Phrase, learnerId: string, now: Date): ReviewCard[] =>
+  CARD_DIRECTIONS.filter(
+    (direction) => direction !== "audio-meaning" || !!phrase.audioUrl
+  ).map((direction) => ({
+    id: `${phraseKey(phrase)}|${direction}`,
+    learnerId,
+    direction,
+    phrase,
+    easeFactor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    dueAt: now.toISOString(),
+    lastReviewedAt: null,
+  }));
+
+/** Every phrase in `lessons`, by card key. */
+export const phrasesByKey = (lessons: Lesson[]) => {
+  const phrases = new Map<string, Phrase>();
+  lessons.forEach((lesson) =>
+    lesson.activities.forEach((activity) =>
+      phrasesOf(activity).forEach((phrase) =>
+        phrases.set(phraseKey(phrase), phrase)
+      )
+    )
+  );
+  return phrases;
+};
+
+/**
+ * The card with its phrase as the lessons have it now: stored audio only
+ * has a URL while the page is open, and teachers fix translations.
+ */
+export const withCurrentPhrase = (
+  card: ReviewCard,
+  phrases: Map<string, Phrase>
+): ReviewCard => {
+  const phrase = phrases.get(phraseKey(card.phrase));
+  if (phrase) return { ...card, phrase };
+  return card.phrase.audioUrl?.startsWith("blob:")
+    ? { ...card, phrase: { ...card.phrase, audioUrl: null } }
+    : card;
+};
+
+// ===============================================
+// SCHEDULING (SM-2)
+// ===============================================
+
+export const scheduleCard = (
+  card: ReviewCard,
+  quality: ReviewQuality,
+  now = new Date()
+): ReviewCard => {
+  const easeFactor = Math.max(
+    1.3,
+    card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  let repetitions = 0;
+  let interval = 1;
+  if (quality >= 3) {
+    repetitions = card.repetitions + 1;
+    interval =
+      repetitions === 1
+        ? 1
+        : repetitions === 2
+          ? 6
+          : Math.round(card.interval * easeFactor);
+  }
+
+  return {
+    ...card,
+    easeFactor,
+    interval,
+    repetitions,
+    dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+};
+
+/** How a finished lesson run rates an activity: first-try right is good
+ * recall, right after a retry is hard, never right is a lapse. */
+const lessonQuality = (
+  session: LessonSession,
+  activityId: number
+): ReviewQuality | null => {
+  const attempts = session.attempts.filter(
+    (attempt) => attempt.activityId === activityId
+  );
+  if (attempts.length === 0) return null;
+  if (attempts[0].correct) return 4;
+  return attempts.some((attempt) => attempt.correct) ? 3 : 1;
+};
+
+// ===============================================
+// STORAGE
+// ===============================================
+
+const loadAllCards = (): ReviewCard[] => {
+  try {
+    const cards = JSON.parse(localStorage.getItem(REVIEW_STORAGE_KEY) || "[]");
+    return Array.isArray(cards) ? cards : [];
+  } catch {
+    // A corrupt deck starts over rather than breaking the learner pages
+    return [];
+  }
+};
+
+export const loadDeck = (learnerId = getLearnerId()): ReviewCard[] =>
+  loadAllCards().filter((card) => card.learnerId === learnerId);
+
+export const saveCards = (cards: ReviewCard[]) => {
+  const updated = new Map(
+    cards.map((card) => [`${card.learnerId}|${card.id}`, card])
+  );
+  const kept = loadAllCards().filter(
+    (card) => !updated.has(`${card.learnerId}|${card.id}`)
+  );
+  localStorage.setItem(
+    REVIEW_STORAGE_KEY,
+    JSON.stringify([...kept, ...updated.values()])
+  );
+};
+
+/**
+ * Adds the phrases of a finished lesson run to the learner's deck and
+ * schedules them from how the activities went. A phrase used by several
+ * activities is rated once, by its worst result; ungraded activities only
+ * introduce their phrases.
+ */
+export const addLessonToDeck = (
+  lesson: Lesson,
+  session: LessonSession,
+  learnerId = getLearnerId(),
+  now = new Date()
+) => {
+  const deck = new Map(loadDeck(learnerId).map((card) => [card.id, card]));
+  const ratings = new Map<
+    string,
+    { card: ReviewCard; quality: ReviewQuality | null }
+  >();
+
+  lesson.activities.forEach((activity) => {
+    const quality = isGraded(activity)
+      ? lessonQuality(session, activity.id)
+      : null;
+    phrasesOf(activity).forEach((phrase) => {
+      newCards(phrase, learnerId, now).forEach((fresh) => {
+        const rated = ratings.get(fresh.id);
+        const card = rated?.card ?? deck.get(fresh.id) ?? fresh;
+        const worst =
+          rated?.quality == null || quality === null
+            ? (rated?.quality ?? quality)
+            : (Math.min(rated.quality, quality) as ReviewQuality);
+        ratings.set(fresh.id, { card, quality: worst });
+      });
+    });
+  });
+
+  saveCards(
+    [...ratings.values()].map(({ card, quality }) =>
+      quality === null ? card : scheduleCard(card, quality, now)
+    )
+  );
+};
+
+export const dueCards = (cards: ReviewCard[], now = new Date()) =>
+  cards
+    .filter((card) => Date.parse(card.dueAt) <= now.getTime())
+    .sort((a, b) => Date.parse(a.dueAt) - Date.parse(b.dueAt));
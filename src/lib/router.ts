@@ -0,0 +1,102 @@
+import { useMemo, useSyncExternalStore } from "react";
+
+// ===============================================
+// ROUTES
+// ===============================================
+
+export type Route =
+  | { name: "lessons" }
+  | { name: "setup"; lessonId: string }
+  | { name: "builder"; lessonId: string }
+  | { name: "preview"; lessonId: string }
+  | { name: "learner-lessons" }
+  | { name: "review" }
+  | { name: "learn"; lessonId: string }
+  | { name: "not-found"; pathname: string };
+
+export const matchRoute = (pathname: string): Route => {
+  const segments = pathname.split("/").filter(Boolean).map(decodeURIComponent);
+
+  if (
+    segments.length === 0 ||
+    (segments.length === 1 && segments[0] === "lessons")
+  ) {
+    return { name: "lessons" };
+  }
+
+  if (segments[0] === "lessons" && segments.length === 3) {
+    if (segments[2] === "setup")
+      return { name: "setup", lessonId: segments[1] };
+    if (segments[2] === "builder")
+      return { name: "builder", lessonId: segments[1] };
+    if (segments[2] === "preview")
+      return { name: "preview", lessonId: segments[1] };
+  }
+
+  if (segments.length === 1 && segments[0] === "learn") {
+    return { name: "learner-lessons" };
+  }
+
+  if (segments.length === 1 && segments[0] === "review") {
+    return { name: "review" };
+  }
+
+  if (segments[0] === "learn" && segments.length === 2) {
+    return { name: "learn", lessonId: segments[1] };
+  }
+
+  return { name: "not-found", pathname };
+};
+
+export const pathFor = (
+  route: Exclude<Route, { name: "not-found" }>
+): string => {
+  switch (route.name) {
+    case "lessons":
+      return "/lessons";
+    case "setup":
+    case "builder":
+    case "preview":
+      return `/lessons/${encodeURIComponent(route.lessonId)}/${route.name}`;
+    case "learner-lessons":
+      return "/learn";
+    case "review":
+      return "/review";
+    case "learn":
+      return `/learn/${encodeURIComponent(route.lessonId)}`;
+  }
+};
+
+// ===============================================
+// HISTORY
+// ===============================================
+
+// pushState does not fire popstate, so in-app navigation announces itself
+// with this event instead.
+const NAVIGATE_EVENT = "app:navigate";
+
+export const navigate = (to: string, options: { replace?: boolean } = {}) => {
+  if (to === window.location.pathname) return;
+  if (options.replace) {
+    window.history.replaceState(null, "", to);
+  } else {
+    window.history.pushState(null, "", to);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+};
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+};
+
+const getPathname = () => window.location.pathname;
+
+export const useRoute = (): Route => {
+  const pathname = useSyncExternalStore(subscribe, getPathname);
+  return useMemo(() => matchRoute(pathname), [pathname]);
+};
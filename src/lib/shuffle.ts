@@ -0,0 +1,29 @@
+/** Returns a shuffled copy of `items` (Fisher–Yates). */
+export const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Shuffles `items` so the result differs from the original order whenever
+ * that is possible, so an exercise never starts out already solved.
+ * `isSame` decides whether two items are interchangeable.
+ */
+export const shuffleUnsolved = <T>(
+  items: T[],
+  isSame: (a: T, b: T) => boolean = Object.is
+): T[] => {
+  const isOriginalOrder = (candidate: T[]) =>
+    candidate.every((item, i) => isSame(item, items[i]));
+
+  // Every order looks the same when all items are interchangeable.
+  if (items.every((item) => isSame(item, items[0]))) return [...items];
+
+  let result = shuffle(items);
+  while (isOriginalOrder(result)) result = shuffle(items);
+  return result;
+};
@@ -0,0 +1,210 @@
+// ===============================================
+// ARABIZI <-> ARABIC SCRIPT
+// Darija content is written in Arabizi: Latin letters plus digits for the
+// sounds Latin lacks (3 = ع, 7 = ح, 5 = خ, 9 = ق, 2 = ء). The conversion is
+// phonetic, so it gives a readable spelling rather than the dictionary one:
+// short vowels are mostly dropped and long ones written out.
+// ===============================================
+
+export type DarijaScript = "latin" | "arabic" | "both";
+
+export const DARIJA_SCRIPTS: { value: DarijaScript; label: string }[] = [
+  { value: "latin", label: "Latin (Arabizi)" },
+  { value: "arabic", label: "Arabic script" },
+  { value: "both", label: "Both" },
+];
+
+/** Arabizi spellings, longest first so digraphs win over single letters. */
+const LATIN_TO_ARABIC: [string, string][] = [
+  ["gh", "غ"],
+  ["ch", "ش"],
+  ["sh", "ش"],
+  ["kh", "خ"],
+  ["th", "ث"],
+  ["aa", "ا"],
+  ["ou", "و"],
+  ["oo", "و"],
+  ["ee", "ي"],
+  ["ii", "ي"],
+  ["2", "ء"],
+  ["3", "ع"],
+  ["5", "خ"],
+  ["6", "ط"],
+  ["7", "ح"],
+  ["8", "ه"],
+  ["9", "ق"],
+  ["b", "ب"],
+  ["d", "د"],
+  ["f", "ف"],
+  ["g", "ڭ"],
+  ["h", "ه"],
+  ["j", "ج"],
+  ["k", "ك"],
+  ["l", "ل"],
+  ["m", "م"],
+  ["n", "ن"],
+  ["p", "ب"],
+  ["q", "ق"],
+  ["r", "ر"],
+  ["s", "س"],
+  ["t", "ت"],
+  ["v", "ڤ"],
+  ["w", "و"],
+  ["x", "كس"],
+  ["y", "ي"],
+  ["z", "ز"],
+  ["c", "ك"],
+];
+
+const LATIN_VOWELS = "aeiou";
+const SHADDA = "ّ";
+
+const ARABIC_PUNCTUATION: Record<string, string> = {
+  "?": "؟",
+  ",": "،",
+  ";": "؛",
+};
+
+/** A vowel spelled out in Arabic script, or "" where it is left unwritten. */
+const arabicVowel = (vowel: string, isWordStart: boolean) => {
+  if (isWordStart) {
+    if (vowel === "i" || vowel === "e") return "إ";
+    return vowel === "a" ? "ا" : "أو";
+  }
+  if (vowel === "a") return "ا";
+  if (vowel === "i") return "ي";
+  if (vowel === "o" || vowel === "u") return "و";
+  return ""; // e is the short schwa
+};
+
+const convertLatinWord = (word: string) => {
+  // "o" on its own is the conjunction "and"
+  if (word === "o" || word === "w") return "و";
+
+  let result = "";
+  let previous = "";
+  let i = 0;
+
+  while (i < word.length) {
+    const isWordStart = result === "";
+    const rest = word.slice(i);
+    const match = LATIN_TO_ARABIC.find(([latin]) => rest.startsWith(latin));
+
+    if (match) {
+      const [latin, arabic] = match;
+      // Doubled consonants (ll, ss) become one letter with a shadda
+      if (latin === previous && latin.length === 1 && arabic !== "ء") {
+        result += SHADDA;
+      } else {
+        result += arabic;
+      }
+      previous = latin;
+      i += latin.length;
+    } else if (LATIN_VOWELS.includes(word[i])) {
+      result += arabicVowel(word[i], isWordStart);
+      previous = word[i];
+      i++;
+    } else {
+      // Apostrophes and hyphens only separate syllables
+      if (word[i] !== "'" && word[i] !== "-") result += word[i];
+      previous = "";
+      i++;
+    }
+  }
+
+  return result;
+};
+
+/** Arabizi ("Sba7 l5eer") to Arabic script ("سباح لخير"). */
+export const arabiziToArabic = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/([a-z0-9'-]+)/)
+    .map((chunk, index) =>
+      index % 2 === 1
+        ? convertLatinWord(chunk)
+        : chunk.replace(/[?,;]/g, (mark) => ARABIC_PUNCTUATION[mark])
+    )
+    .join("");
+
+// ===============================================
+// ARABIC SCRIPT -> ARABIZI
+// ===============================================
+
+const ARABIC_TO_LATIN: Record<string, string> = {
+  ء: "2",
+  أ: "a",
+  إ: "i",
+  آ: "a",
+  ؤ: "2",
+  ئ: "2",
+  ا: "a",
+  ب: "b",
+  ت: "t",
+  ث: "t",
+  ج: "j",
+  ح: "7",
+  خ: "5",
+  د: "d",
+  ذ: "d",
+  ر: "r",
+  ز: "z",
+  س: "s",
+  ش: "ch",
+  ص: "s",
+  ض: "d",
+  ط: "t",
+  ظ: "d",
+  ع: "3",
+  غ: "gh",
+  ف: "f",
+  ق: "9",
+  ك: "k",
+  ڭ: "g",
+  گ: "g",
+  ل: "l",
+  م: "m",
+  ن: "n",
+  ه: "h",
+  ة: "a",
+  ى: "a",
+  ڤ: "v",
+  پ: "p",
+  "َ": "a", // fatha
+  "ِ": "i", // kasra
+  "ُ": "u", // damma
+  "؟": "?",
+  "،": ",",
+  "؛": ";",
+};
+
+/** Signs with no Latin spelling: sukun, tanwin and tatweel. */
+const SILENT_MARKS = /[ًٌٍْـ]/g;
+
+const isArabicLetter = (char: string | undefined) =>
+  !!char && /[ء-يڤکڭگپ]/.test(char);
+
+/** Arabic script ("سلام") to Arabizi ("slam"). */
+export const arabicToArabizi = (text: string) => {
+  const chars = [...text.replace(SILENT_MARKS, "")];
+  let result = "";
+  let previous = "";
+
+  chars.forEach((char, i) => {
+    let latin: string;
+    if (char === SHADDA) {
+      latin = previous;
+    } else if (char === "و" || char === "ي") {
+      // Consonant next to a vowel or at the start of a word, vowel otherwise
+      const consonantal = !isArabicLetter(chars[i - 1]) || chars[i + 1] === "ا";
+      latin =
+        char === "و" ? (consonantal ? "w" : "ou") : consonantal ? "y" : "i";
+    } else {
+      latin = ARABIC_TO_LATIN[char] ?? char;
+    }
+    result += latin;
+    previous = latin;
+  });
+
+  return result;
+};
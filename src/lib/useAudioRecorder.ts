@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type RecorderStatus = "idle" | "requesting" | "recording" | "error";
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== "undefined" &&
+  !!navigator.mediaDevices?.getUserMedia;
+
+const describeError = (error: unknown) => {
+  if (error instanceof DOMException && error.name === "NotAllowedError") {
+    return "Microphone access was denied. Allow it in the browser to record.";
+  }
+  if (error instanceof DOMException && error.name === "NotFoundError") {
+    return "No microphone was found.";
+  }
+  return "Recording could not be started.";
+};
+
+/**
+ * Microphone recording with MediaRecorder. `start` asks for the microphone
+ * and begins recording; `stop` resolves with the recorded blob. The
+ * microphone is released as soon as recording stops or the component
+ * unmounts.
+ */
+export const useAudioRecorder = () => {
+  const [status, setStatus] = useState<RecorderStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const releaseMicrophone = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  };
+
+  useEffect(
+    () => () => {
+      if (recorderRef.current?.state === "recording") {
+        recorderRef.current.stop();
+      }
+      releaseMicrophone();
+    },
+    []
+  );
+
+  const start = useCallback(async () => {
+    setError(null);
+    setStatus("requesting");
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: true,
+      });
+      streamRef.current = stream;
+      const recorder = new MediaRecorder(stream);
+      recorderRef.current = recorder;
+      recorder.start();
+      setStatus("recording");
+    } catch (err) {
+      releaseMicrophone();
+      setError(describeError(err));
+      setStatus("error");
+    }
+  }, []);
+
+  const stop = useCallback(
+    () =>
+      new Promise<Blob>((resolve, reject) => {
+        const recorder = recorderRef.current;
+        if (!recorder || recorder.state !== "recording") {
+          reject(new Error("Not recording"));
+          return;
+        }
+
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = (e) => chunks.push(e.data);
+        recorder.onstop = () => {
+          releaseMicrophone();
+          recorderRef.current = null;
+          setStatus("idle");
+          resolve(new Blob(chunks, { type: recorder.mimeType }));
+        };
+        recorder.stop();
+      }),
+    []
+  );
+
+  return { status, error, start, stop };
+};
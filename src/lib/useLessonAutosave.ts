@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { isQuotaError, putLesson } from "./lessonRepository";
+import type { LessonDraft } from "./lessonSchema";
+
+export type AutosaveStatus = "saved" | "pending" | "saving" | "error";
+
+/** Quiet time after the last edit before the lesson is written. */
+const AUTOSAVE_DELAY_MS = 800;
+
+/**
+ * Saves `lesson` once edits pause, instead of on every keystroke. `flush`
+ * writes a pending save straight away (before leaving the editor, say);
+ * anything pending is also flushed on unmount. A failed save stays pending
+ * and is retried with the next edit. `markSaved` tells it a lesson was just
+ * read from storage, so opening one does not write (and sync) it again;
+ * `isSaved` says whether `lesson` is the copy in storage.
+ */
+export const useLessonAutosave = (lesson: LessonDraft, enabled: boolean) => {
+  const [status, setStatus] = useState<AutosaveStatus>("saved");
+  const [error, setError] = useState<string | null>(null);
+  const pendingRef = useRef<LessonDraft | null>(null);
+  const timerRef = useRef<number | null>(null);
+  // The updatedAt of the copy in storage, as far as this editor knows
+  const savedAtRef = useRef<string | null>(null);
+
+  const flush = useCallback(async () => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+
+    setStatus("saving");
+    try {
+      await putLesson(pending);
+      savedAtRef.current = pending.updatedAt;
+      setError(null);
+      setStatus(pendingRef.current ? "pending" : "saved");
+    } catch (err) {
+      console.error("Saving the lesson failed:", err);
+      pendingRef.current ??= pending;
+      setStatus("error");
+      setError(
+        isQuotaError(err)
+          ? "Your browser's storage is full, so recent changes are not saved. Export lessons you no longer edit, delete them here, then try again."
+          : "Recent changes could not be saved. They will be retried with your next edit."
+      );
+    }
+  }, []);
+
+  const markSaved = useCallback((saved: LessonDraft) => {
+    savedAtRef.current = saved.updatedAt;
+  }, []);
+
+  const isSaved = useCallback(
+    (current: LessonDraft) => current.updatedAt === savedAtRef.current,
+    []
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (lesson.updatedAt === savedAtRef.current) {
+      // Nothing new to save, but finish writing a previous lesson's edits
+      if (pendingRef.current) void flush();
+      return;
+    }
+    pendingRef.current = lesson;
+    setStatus("pending");
+    timerRef.current = window.setTimeout(flush, AUTOSAVE_DELAY_MS);
+    return () => {
+      if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    };
+  }, [lesson, enabled, flush]);
+
+  useEffect(
+    () => () => {
+      void flush();
+    },
+    [flush]
+  );
+
+  return { status, error, flush, markSaved, isSaved };
+};
@@ -0,0 +1,211 @@
+import { useCallback, useMemo, useReducer } from "react";
+import type { Reducer } from "react";
+
+// ===============================================
+// UNDO / REDO HISTORY
+// Wraps a reducer so every recorded action can be undone and redone. Each
+// step keeps the whole state from before it, so undo never has to invert
+// an action.
+// ===============================================
+
+export interface StepDescription {
+  /** Shown in the history panel, e.g. "Delete activity". */
+  label: string;
+  /** Steps with the same group key dispatched within GROUP_WINDOW_MS of
+   * each other merge into one, so a burst of typing undoes at once. */
+  group?: string;
+}
+
+/** Names the step an action makes. `null` marks an action that is not an
+ * edit (loading another document, say): it is applied and starts a fresh
+ * history. */
+export type DescribeStep<S, A> = (
+  action: A,
+  state: S
+) => StepDescription | null;
+
+interface Step<S> {
+  state: S;
+  label: string;
+}
+
+interface HistoryState<S> {
+  /** The state before each applied step, oldest first. */
+  past: Step<S>[];
+  present: S;
+  /** The state after each undone step, next to redo first. */
+  future: Step<S>[];
+  /** The last recorded step, while later steps may still merge into it. */
+  lastGroup: { key: string; at: number } | null;
+}
+
+type HistoryAction<A> =
+  | { type: "APPLY"; action: A; at: number }
+  | { type: "UNDO"; at: number }
+  | { type: "REDO"; at: number }
+  | { type: "GO_TO"; position: number; at: number };
+
+const GROUP_WINDOW_MS = 1000;
+const MAX_STEPS = 100;
+
+export interface UndoHistory {
+  /** Labels of every step, applied ones first. */
+  steps: string[];
+  /** How many of `steps` are applied; the rest have been undone. */
+  position: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  /** Undoes or redoes until `position` steps are applied. */
+  goTo: (position: number) => void;
+}
+
+interface UndoOptions<S> {
+  /** Applied to a state brought back by undo or redo, e.g. to stamp a new
+   * modified time. */
+  restore?: (state: S, at: number) => S;
+}
+
+const undoStep = <S>(
+  history: HistoryState<S>,
+  restore: (state: S) => S
+): HistoryState<S> => {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: restore(previous.state),
+    future: [
+      { state: history.present, label: previous.label },
+      ...history.future,
+    ],
+    lastGroup: null,
+  };
+};
+
+const redoStep = <S>(
+  history: HistoryState<S>,
+  restore: (state: S) => S
+): HistoryState<S> => {
+  const [next, ...future] = history.future;
+  if (!next) return history;
+  return {
+    past: [...history.past, { state: history.present, label: next.label }],
+    present: restore(next.state),
+    future,
+    lastGroup: null,
+  };
+};
+
+/**
+ * `useReducer` with an undo/redo history. Returns the state, a dispatch for
+ * the wrapped reducer's actions, and the history controls.
+ */
+export const useUndoableReducer = <S, A>(
+  reducer: Reducer<S, A>,
+  initialState: S,
+  describe: DescribeStep<S, A>,
+  { restore }: UndoOptions<S> = {}
+) => {
+  const historyReducer = useCallback(
+    (history: HistoryState<S>, action: HistoryAction<A>): HistoryState<S> => {
+      const restoreAt = (state: S) =>
+        restore ? restore(state, action.at) : state;
+
+      switch (action.type) {
+        case "APPLY": {
+          const present = reducer(history.present, action.action);
+          if (present === history.present) return history;
+
+          const step = describe(action.action, history.present);
+          if (!step) {
+            return { past: [], present, future: [], lastGroup: null };
+          }
+          const { lastGroup } = history;
+          const merges =
+            step.group !== undefined &&
+            lastGroup?.key === step.group &&
+            action.at - lastGroup.at < GROUP_WINDOW_MS &&
+            history.past.length > 0 &&
+            history.future.length === 0;
+          const past = merges
+            ? history.past
+            : [...history.past, { state: history.present, label: step.label }];
+          return {
+            past: past.slice(-MAX_STEPS),
+            present,
+            future: [],
+            lastGroup:
+              step.group === undefined
+                ? null
+                : { key: step.group, at: action.at },
+          };
+        }
+
+        case "UNDO":
+          return undoStep(history, restoreAt);
+
+        case "REDO":
+          return redoStep(history, restoreAt);
+
+        case "GO_TO": {
+          let next = history;
+          while (next.past.length > action.position && next.past.length > 0) {
+            next = undoStep(next, restoreAt);
+          }
+          while (next.past.length < action.position && next.future.length > 0) {
+            next = redoStep(next, restoreAt);
+          }
+          return next;
+        }
+
+        default:
+          return history;
+      }
+    },
+    [reducer, describe, restore]
+  );
+
+  const [history, dispatchHistory] = useReducer(historyReducer, {
+    past: [],
+    present: initialState,
+    future: [],
+    lastGroup: null,
+  });
+
+  const dispatch = useCallback(
+    (action: A) => dispatchHistory({ type: "APPLY", action, at: Date.now() }),
+    []
+  );
+
+  const undo = useCallback(
+    () => dispatchHistory({ type: "UNDO", at: Date.now() }),
+    []
+  );
+  const redo = useCallback(
+    () => dispatchHistory({ type: "REDO", at: Date.now() }),
+    []
+  );
+  const goTo = useCallback(
+    (position: number) =>
+      dispatchHistory({ type: "GO_TO", position, at: Date.now() }),
+    []
+  );
+
+  const { past, future } = history;
+  const controls = useMemo<UndoHistory>(
+    () => ({
+      steps: [...past, ...future].map((step) => step.label),
+      position: past.length,
+      canUndo: past.length > 0,
+      canRedo: future.length > 0,
+      undo,
+      redo,
+      goTo,
+    }),
+    [past, future, undo, redo, goTo]
+  );
+
+  return [history.present, dispatch, controls] as const;
+};
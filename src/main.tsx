@@ -2,6 +2,12 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { startLessonSync } from './lib/lessonSync'
+
+// Share lessons through a team server when one is configured
+if (import.meta.env.VITE_SYNC_URL) {
+  startLessonSync(import.meta.env.VITE_SYNC_URL)
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the lesson sync API, e.g. "/api". Sync is off when unset. */
+  readonly VITE_SYNC_URL?: string;
+}
@@ -5,4 +5,10 @@ export default defineConfig({
   plugins: [
     tailwindcss(),
   ],
-})
\ No newline at end of file
+  server: {
+    // `npm run mock-server` serves the lesson sync API here
+    proxy: {
+      '/api': 'http://localhost:8787',
+    },
+  },
+})